@@ -12,16 +12,24 @@ from pydantic import BaseModel
 
 from utils.pipelines.main import pop_system_message
 
+def env_list(name: str, default: str = "") -> List[str]:
+    return [item.strip() for item in os.environ.get(name, default).split(",") if item.strip()]
+
 class Pipeline:
     def __init__(self):
         self.type = "manifold"
         self.name = "Bedrock: "
-        # Initialize clients for both regions
-        self.east_bedrock = boto3.client("bedrock", region_name="us-east-1")
-        self.east_bedrock_runtime = boto3.client("bedrock-runtime", region_name="us-east-1")
-        self.west_bedrock = boto3.client("bedrock", region_name="us-west-2")
-        self.west_bedrock_runtime = boto3.client("bedrock-runtime", region_name="us-west-2")
-        
+        # Set by the CDK construct from its bedrock.regions and bedrock.inferenceProfiles props
+        self.regions = env_list("BEDROCK_REGIONS", "us-east-1,us-west-2")
+        self.inference_profiles = env_list("BEDROCK_INFERENCE_PROFILES")
+        # False unless the task role was granted bedrock:InvokeModelWithResponseStream
+        self.streaming = os.environ.get("BEDROCK_STREAMING", "true").lower() == "true"
+        # Set when the construct creates a guardrail; the task role cannot invoke models without it
+        self.guardrail_id = os.environ.get("BEDROCK_GUARDRAIL_ID")
+        self.guardrail_version = os.environ.get("BEDROCK_GUARDRAIL_VERSION")
+        self.bedrock = {region: boto3.client("bedrock", region_name=region) for region in self.regions}
+        self.bedrock_runtime = {region: boto3.client("bedrock-runtime", region_name=region) for region in self.regions}
+
         self.pipelines = self.get_models()
 
     async def on_startup(self):
@@ -40,76 +48,61 @@ class Pipeline:
         for model in self.pipelines:
             if model["id"] == model_id:
                 return model["region"]
-        return "us-east-1"
+        return self.regions[0]
 
     # Helper: select runtime client based on region
     def get_runtime_client(self, region: str):
-        return self.east_bedrock_runtime if region == "us-east-1" else self.west_bedrock_runtime
+        if region not in self.bedrock_runtime:
+            self.bedrock_runtime[region] = boto3.client("bedrock-runtime", region_name=region)
+        return self.bedrock_runtime[region]
 
-    # Get east foundation models (active only)
-    def get_east_models(self) -> List[dict]:
+    # Get a region's foundation models (active and not offered by an earlier region)
+    def get_region_models(self, region: str, known_ids: set) -> List[dict]:
         try:
-            response = self.east_bedrock.list_foundation_models()
+            response = self.bedrock[region].list_foundation_models()
             models = [
                 {
                     "id": model["modelId"],
                     "name": model["modelName"],
-                    "region": "us-east-1",
-                    "description": f"{model['modelName']} - us-east-1"
+                    "region": region,
+                    "description": f"{model['modelName']} - {region}"
                 }
                 for model in response["modelSummaries"]
-                if model.get("modelLifecycle", {}).get("status") == 'ACTIVE'
+                if model.get("modelLifecycle", {}).get("status") == 'ACTIVE' and model["modelId"] not in known_ids
             ]
             return models
         except Exception as e:
-            print(f"Error fetching east models: {e}")
-            return [{"id": "error", "name": "Error fetching east models", "region": "us-east-1"}]
-
-    # Get cross-region inference profiles (exclude east ones)
-    def get_cross_region_profiles(self, east_ids: set) -> List[dict]:
-        try:
-            response = self.east_bedrock.list_inference_profiles()  # assumed call
-            profiles = [
-                {
-                    "id": profile["modelId"],
-                    "name": profile["modelName"],
-                    "region": profile.get("region", "us-east-1"),
-                    "description": f"{model['modelName']} - us-east-1 (cross-region)"
-                }
-                for profile in response.get("profiles", [])
-                if profile.get("status") == "ACTIVE" and profile["modelId"] not in east_ids
-            ]
-            return profiles
-        except Exception as e:
-            print(f"Error fetching cross-region profiles: {e}")
-            return []
-
-    # Get west foundation models (active and not in east)
-    def get_west_models(self, east_ids: set) -> List[dict]:
-        try:
-            response = self.west_bedrock.list_foundation_models()
-            models = [
-                {
-                    "id": model["modelId"],
-                    "name": model["modelName"],
-                    "region": "us-west-2",
-                    "description": f"{model['modelName']} - us-west-2"
-                }
-                for model in response["modelSummaries"]
-                if model.get("modelLifecycle", {}).get("status") == 'ACTIVE' and model["modelId"] not in east_ids
-            ]
-            return models
-        except Exception as e:
-            print(f"Error fetching west models: {e}")
-            return [{"id": "error", "name": "Error fetching west models", "region": "us-west-2"}]
-
-    # Combine models from east, cross-region, and west
+            print(f"Error fetching {region} models: {e}")
+            return [{"id": "error", "name": f"Error fetching {region} models", "region": region}]
+
+    # Get the configured cross-region inference profiles, invoked from the first region unless given as ARN
+    def get_inference_profiles(self) -> List[dict]:
+        profiles = []
+        for profile in self.inference_profiles:
+            region = profile.split(":")[3] if profile.startswith("arn:") else self.regions[0]
+            name = profile
+            try:
+                client = self.bedrock.get(region) or boto3.client("bedrock", region_name=region)
+                name = client.get_inference_profile(inferenceProfileIdentifier=profile)["inferenceProfileName"]
+            except Exception as e:
+                print(f"Error fetching inference profile {profile}: {e}")
+            profiles.append({
+                "id": profile,
+                "name": name,
+                "region": region,
+                "description": f"{name} - {region} (cross-region)"
+            })
+        return profiles
+
+    # Combine the models of every region, in order, with the inference profiles
     def get_models(self) -> List[dict]:
-        east_models = self.get_east_models()
-        east_ids = {model["id"] for model in east_models}
-        cross_profiles = self.get_cross_region_profiles(east_ids)
-        west_models = self.get_west_models(east_ids)
-        return east_models + cross_profiles + west_models
+        models = []
+        known_ids = set()
+        for region in self.regions:
+            region_models = self.get_region_models(region, known_ids)
+            known_ids.update(model["id"] for model in region_models)
+            models += region_models
+        return models + self.get_inference_profiles()
 
     def pipe(
         self, user_message: str, model_id: str, messages: List[dict], body: dict
@@ -143,9 +136,14 @@ class Pipeline:
                 "inferenceConfig": {"temperature": body.get("temperature", 0.5)},
                 "additionalModelRequestFields": {"top_k": body.get("top_k", 200), "top_p": body.get("top_p", 0.9)}
             }
+            if self.guardrail_id:
+                payload["guardrailConfig"] = {
+                    "guardrailIdentifier": self.guardrail_id,
+                    "guardrailVersion": self.guardrail_version,
+                }
             # Determine runtime client based on model region
             region = self.get_model_region(model_id)
-            if body.get("stream", False):
+            if body.get("stream", False) and self.streaming:
                 return self.stream_response(model_id, payload, region)
             else:
                 return self.get_completion(model_id, payload, region)
@@ -0,0 +1,84 @@
+import os
+from typing import List, Optional
+
+import boto3
+from pydantic import BaseModel
+
+
+class Pipeline:
+    class Valves(BaseModel):
+        # Models the filter applies to; "*" is every pipelines model
+        pipelines: List[str] = ["*"]
+        priority: int = 0
+        number_of_results: int = 5
+
+    def __init__(self):
+        self.type = "filter"
+        self.name = "Bedrock Knowledge Base"
+        self.valves = self.Valves()
+        # Set by the CDK construct when it creates a knowledge base
+        self.knowledge_base_id = os.environ.get("KNOWLEDGE_BASE_ID")
+        self.client = (
+            boto3.client("bedrock-agent-runtime", region_name=os.environ.get("KNOWLEDGE_BASE_REGION"))
+            if self.knowledge_base_id
+            else None
+        )
+
+    async def on_startup(self):
+        print(f"on_startup:{__name__}")
+
+    async def on_shutdown(self):
+        print(f"on_shutdown:{__name__}")
+
+    # Helper: text of a message whose content is a string or a list of parts
+    def get_text(self, message: dict) -> str:
+        content = message.get("content", "")
+        if isinstance(content, list):
+            return " ".join(item["text"] for item in content if item.get("type") == "text")
+        return content
+
+    def retrieve(self, query: str) -> List[dict]:
+        response = self.client.retrieve(
+            knowledgeBaseId=self.knowledge_base_id,
+            retrievalQuery={"text": query},
+            retrievalConfiguration={
+                "vectorSearchConfiguration": {"numberOfResults": self.valves.number_of_results}
+            },
+        )
+        return response["retrievalResults"]
+
+    # Add the passages matching the latest user message to the system message
+    async def inlet(self, body: dict, user: Optional[dict] = None) -> dict:
+        if not self.knowledge_base_id:
+            return body
+        messages = body.get("messages", [])
+        user_messages = [message for message in messages if message.get("role") == "user"]
+        if not user_messages:
+            return body
+        query = self.get_text(user_messages[-1])
+        if not query:
+            return body
+
+        try:
+            results = self.retrieve(query)
+        except Exception as e:
+            print(f"Error querying knowledge base {self.knowledge_base_id}: {e}")
+            return body
+        if not results:
+            return body
+
+        passages = "\n\n".join(
+            f"[{index + 1}] ({result.get('location', {}).get('s3Location', {}).get('uri', 'unknown source')})\n"
+            f"{result['content']['text']}"
+            for index, result in enumerate(results)
+        )
+        context = (
+            "Answer using the following passages from the organization's documents when they are relevant, "
+            f"and cite them by number.\n\n{passages}"
+        )
+        if messages and messages[0].get("role") == "system":
+            messages[0]["content"] = f"{self.get_text(messages[0])}\n\n{context}"
+        else:
+            messages.insert(0, {"role": "system", "content": context})
+        body["messages"] = messages
+        return body
@@ -0,0 +1,170 @@
+import { OpenWebUIEcsConstructProps } from './llm-construct';
+
+export type EnvironmentName = 'dev' | 'staging' | 'prod';
+
+export interface EnvironmentDomainConfig {
+  /** Domain users open Open WebUI on, e.g. `chat.example.com`. */
+  readonly domainName: string;
+
+  /** Route 53 public hosted zone the domain is in. */
+  readonly hostedZoneId: string;
+
+  /** Name of the hosted zone, e.g. `example.com`. */
+  readonly hostedZoneName: string;
+
+  /**
+   * Domain for the pipelines endpoint.
+   * @default - no pipelines domain
+   */
+  readonly pipelinesDomainName?: string;
+}
+
+export interface EnvironmentEfsConfig {
+  /** ID of the EFS file system to attach, e.g. one restored from a recovery point. */
+  readonly fileSystemId: string;
+
+  /** Security group of its mount targets in the environment's VPC. */
+  readonly securityGroupId: string;
+}
+
+export interface EnvironmentConfig {
+  readonly name: EnvironmentName;
+
+  /** AWS account ID the environment is deployed to. */
+  readonly account: string;
+
+  readonly region: string;
+
+  /**
+   * CPU units of the Open WebUI task.
+   * @default - construct default
+   */
+  readonly cpu?: number;
+
+  /**
+   * Memory of the Open WebUI task.
+   * @default - construct default
+   */
+  readonly memoryLimitMiB?: number;
+
+  /**
+   * Number of Open WebUI tasks.
+   * @default - construct default
+   */
+  readonly desiredCount?: number;
+
+  /**
+   * Scale out to this many tasks on load.
+   * @default - no autoscaling
+   */
+  readonly maxCapacity?: number;
+
+  /**
+   * Custom domain served with a certificate from the hosted zone.
+   * @default - the CloudFront domain only
+   */
+  readonly domain?: EnvironmentDomainConfig;
+
+  /**
+   * ACM certificate for the load balancers, in the environment's region. Only used together with
+   * `domain` or `openWebUI.originDomainName`.
+   * @default - looked up from the `acm-arn:account=<account>:region=<region>` context key
+   */
+  readonly certificateArn?: string;
+
+  /**
+   * Existing EFS file system to attach instead of creating one.
+   * @default - a new file system is created
+   */
+  readonly efs?: EnvironmentEfsConfig;
+
+  /**
+   * Further construct settings; sizes and domains above take precedence.
+   * @default - construct defaults
+   */
+  readonly openWebUI?: OpenWebUIEcsConstructProps;
+}
+
+export interface PipelineConfig {
+  /** Account the pipeline runs in. */
+  readonly account: string;
+
+  readonly region: string;
+
+  /** Repository the pipeline builds, as `owner/name`. */
+  readonly repository: string;
+
+  /**
+   * Branch the pipeline builds.
+   * @default 'main'
+   */
+  readonly branch?: string;
+
+  /** ARN of the CodeStar connection to the repository host. */
+  readonly connectionArn: string;
+}
+
+export interface AppConfig {
+  /** Environments in the order changes are promoted through them. */
+  readonly environments: EnvironmentConfig[];
+
+  /**
+   * Deploy the environments from a self-mutating CodePipeline instead of `cdk deploy`.
+   * @default - no pipeline
+   */
+  readonly pipeline?: PipelineConfig;
+}
+
+const ACCOUNT_PATTERN = /^\d{12}$/;
+const REGION_PATTERN = /^[a-z]{2}(-gov)?-[a-z]+-\d$/;
+
+/** Throws on the first setting that cannot be deployed. */
+export function validateAppConfig(config: AppConfig) {
+  if (config.environments.length === 0) {
+    throw new Error('At least one environment is required');
+  }
+  const names = new Set<string>();
+  for (const environment of config.environments) {
+    const prefix = `Environment ${environment.name}`;
+    if (names.has(environment.name)) {
+      throw new Error(`${prefix} is defined more than once`);
+    }
+    names.add(environment.name);
+    validateAccountAndRegion(prefix, environment.account, environment.region);
+    if (environment.maxCapacity !== undefined && environment.maxCapacity < (environment.desiredCount ?? 1)) {
+      throw new Error(`${prefix}: maxCapacity must not be less than desiredCount`);
+    }
+    if (environment.domain && !environment.domain.domainName.endsWith(`.${environment.domain.hostedZoneName}`)
+      && environment.domain.domainName !== environment.domain.hostedZoneName) {
+      throw new Error(`${prefix}: ${environment.domain.domainName} is not in hosted zone ${environment.domain.hostedZoneName}`);
+    }
+    // The partition is aws, aws-cn, aws-us-gov and so on; the region has been checked against REGION_PATTERN
+    if (environment.certificateArn && !new RegExp(`^arn:aws[a-z-]*:acm:${environment.region}:`).test(environment.certificateArn)) {
+      throw new Error(`${prefix}: certificateArn must be an ACM certificate in ${environment.region}`);
+    }
+    if (environment.certificateArn && !environment.domain && !environment.openWebUI?.originDomainName) {
+      throw new Error(`${prefix}: certificateArn is only used with domain or openWebUI.originDomainName`);
+    }
+    if (environment.efs && (!environment.efs.fileSystemId.startsWith('fs-') || !environment.efs.securityGroupId.startsWith('sg-'))) {
+      throw new Error(`${prefix}: efs needs a file system ID (fs-...) and a security group ID (sg-...)`);
+    }
+  }
+  if (config.pipeline) {
+    validateAccountAndRegion('Pipeline', config.pipeline.account, config.pipeline.region);
+    if (!/^[\w.-]+\/[\w.-]+$/.test(config.pipeline.repository)) {
+      throw new Error(`Pipeline: repository must be owner/name, got '${config.pipeline.repository}'`);
+    }
+    if (!config.pipeline.connectionArn.startsWith('arn:aws:')) {
+      throw new Error(`Pipeline: connectionArn is not an ARN: '${config.pipeline.connectionArn}'`);
+    }
+  }
+}
+
+function validateAccountAndRegion(prefix: string, account: string, region: string) {
+  if (!ACCOUNT_PATTERN.test(account)) {
+    throw new Error(`${prefix}: account must be a 12 digit account ID, got '${account}'`);
+  }
+  if (!REGION_PATTERN.test(region)) {
+    throw new Error(`${prefix}: region is not a region name: '${region}'`);
+  }
+}
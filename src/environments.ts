@@ -0,0 +1,29 @@
+import { AppConfig } from './config';
+
+export const APP_CONFIG: AppConfig = {
+  environments: [
+    {
+      name: 'dev',
+      account: '058264355679',
+      region: 'us-east-1',
+      cpu: 2048,
+      memoryLimitMiB: 4096,
+    },
+    {
+      name: 'staging',
+      account: '058264355679',
+      region: 'us-east-1',
+    },
+    {
+      name: 'prod',
+      account: '084375570259',
+      region: 'us-east-1',
+      desiredCount: 2,
+      maxCapacity: 4,
+      openWebUI: {
+        database: { deletionProtection: true },
+        monitoring: {},
+      },
+    },
+  ],
+};
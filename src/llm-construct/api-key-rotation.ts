@@ -0,0 +1,53 @@
+import * as path from 'path';
+import { Duration } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { FargateService } from 'aws-cdk-lib/aws-ecs';
+import { PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { Code, Function as LambdaFunction, Runtime } from 'aws-cdk-lib/aws-lambda';
+import { ISecret } from 'aws-cdk-lib/aws-secretsmanager';
+
+export interface PipelinesApiKeyRotationProps {
+    /** Secret holding the key under the `apiKey` key. */
+    readonly secret: ISecret;
+
+    /**
+     * Services whose containers read the key. They are redeployed after a rotation in this order,
+     * each once the one before it is stable.
+     */
+    readonly services: FargateService[];
+
+    readonly automaticallyAfter: Duration;
+}
+
+/**
+ * Rotates the pipelines API key on a schedule. Once the new key is current, the rotation forces
+ * a new deployment of every service using it, because ECS only reads secrets when a task starts.
+ * The pipelines server accepts a single key, so calls between services fail until all of them
+ * have the new one.
+ */
+export class PipelinesApiKeyRotation extends Construct {
+    constructor(scope: Construct, id: string, props: PipelinesApiKeyRotationProps) {
+        super(scope, id);
+
+        const rotationFunction = new LambdaFunction(this, 'RotationFunction', {
+            runtime: Runtime.NODEJS_22_X,
+            handler: 'api-key.handler',
+            code: Code.fromAsset(path.join(__dirname, 'lambda', 'secret-rotation')),
+            // finishSecret waits for each service but the last to be stable
+            timeout: Duration.minutes(15),
+            environment: {
+                CLUSTER_ARN: props.services[0].cluster.clusterArn,
+                SERVICE_NAMES: props.services.map((service) => service.serviceName).join(','),
+            },
+        });
+        rotationFunction.addToRolePolicy(new PolicyStatement({
+            actions: ['ecs:UpdateService', 'ecs:DescribeServices'],
+            resources: props.services.map((service) => service.serviceArn),
+        }));
+
+        props.secret.addRotationSchedule('RotationSchedule', {
+            rotationLambda: rotationFunction,
+            automaticallyAfter: props.automaticallyAfter,
+        });
+    }
+}
@@ -0,0 +1,152 @@
+import { Names, RemovalPolicy, SecretValue } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import {
+    IUserPool,
+    IUserPoolClient,
+    IUserPoolDomain,
+    OAuthScope,
+    UserPool,
+    UserPoolClientIdentityProvider,
+} from 'aws-cdk-lib/aws-cognito';
+import { Secret as ECSSecret } from 'aws-cdk-lib/aws-ecs';
+import { AuthenticateOidcOptions, ListenerAction } from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import { AuthenticateCognitoAction } from 'aws-cdk-lib/aws-elasticloadbalancingv2-actions';
+import { IKey } from 'aws-cdk-lib/aws-kms';
+import { Secret } from 'aws-cdk-lib/aws-secretsmanager';
+
+/** Path of Open WebUI's OIDC callback, registered with the identity provider next to the ALB's. */
+export const OPEN_WEBUI_OIDC_CALLBACK_PATH = '/oauth/oidc/callback';
+
+export interface OpenWebUIAuthenticationProps {
+    /**
+     * External OIDC identity provider, e.g. the corporate SSO. Takes precedence over Cognito.
+     * @default - Cognito is used
+     */
+    readonly oidc?: Omit<AuthenticateOidcOptions, 'next'>;
+
+    /**
+     * Existing Cognito user pool to sign users in with.
+     * @default - a user pool without self sign-up is created
+     */
+    readonly userPool?: IUserPool;
+
+    /**
+     * Prefix of the Cognito hosted UI domain, which must be unique in the region.
+     * Only used when the construct creates the user pool.
+     * @default - derived from the construct path
+     */
+    readonly userPoolDomainPrefix?: string;
+
+    /**
+     * Sign SSO users into an existing Open WebUI account with the same email address, e.g. accounts
+     * created before `authentication` was turned on. Only enable this if every existing account's
+     * email was verified: whoever created an account with a colleague's email takes over their SSO sign-in.
+     * @default false
+     */
+    readonly mergeAccountsByEmail?: boolean;
+}
+
+export interface OpenWebUIAuthenticationConstructProps extends OpenWebUIAuthenticationProps {
+    /** Domain name users open the chat UI on; used for the callback URLs. */
+    readonly domainName: string;
+
+    /**
+     * Key the client secret copy for Open WebUI is encrypted with.
+     * @default - the AWS managed key for Secrets Manager
+     */
+    readonly encryptionKey?: IKey;
+}
+
+/**
+ * Authentication enforced by the Open WebUI ALB, either against Cognito or an external OIDC identity provider.
+ * The ALB only passes the subject in plain text, which is not an email address, so Open WebUI signs users in
+ * with its own OIDC client against the same provider, keyed on the verified email claim. Local sign-up and
+ * the login form are turned off, so every account comes from the identity provider.
+ */
+export class OpenWebUIAuthentication extends Construct {
+    /** The Cognito user pool users sign in with, unless an OIDC provider is used. */
+    public readonly userPool?: IUserPool;
+
+    /** Environment variables of Open WebUI's OIDC sign-in. */
+    public readonly environment: { [key: string]: string };
+
+    /** Container secrets of Open WebUI's OIDC sign-in. */
+    public readonly secrets: { [key: string]: ECSSecret };
+
+    private readonly oidc?: Omit<AuthenticateOidcOptions, 'next'>;
+    private readonly cognito?: { userPool: IUserPool; userPoolClient: IUserPoolClient; userPoolDomain: IUserPoolDomain };
+
+    constructor(scope: Construct, id: string, props: OpenWebUIAuthenticationConstructProps) {
+        super(scope, id);
+
+        const callbackUrls = [
+            `https://${props.domainName}/oauth2/idpresponse`,
+            `https://${props.domainName}${OPEN_WEBUI_OIDC_CALLBACK_PATH}`,
+        ];
+        if (props.oidc) {
+            this.oidc = props.oidc;
+            this.environment = openWebUIOidcEnvironment(props, 'SSO', props.oidc.issuer, props.oidc.clientId);
+            this.secrets = this.clientSecret(props.oidc.clientSecret, props.encryptionKey);
+            return;
+        }
+
+        const userPool = props.userPool ?? new UserPool(this, 'UserPool', {
+            selfSignUpEnabled: false,
+            signInAliases: { email: true },
+            removalPolicy: RemovalPolicy.RETAIN,
+        });
+        const userPoolClient = userPool.addClient('AlbClient', {
+            generateSecret: true,
+            supportedIdentityProviders: [UserPoolClientIdentityProvider.COGNITO],
+            oAuth: {
+                flows: { authorizationCodeGrant: true },
+                scopes: [OAuthScope.OPENID, OAuthScope.EMAIL, OAuthScope.PROFILE],
+                callbackUrls,
+            },
+        });
+        const userPoolDomain = userPool.addDomain('Domain', {
+            cognitoDomain: {
+                domainPrefix: props.userPoolDomainPrefix
+                    ?? `openwebui-${Names.uniqueResourceName(this, { maxLength: 50, separator: '-' })}`.toLowerCase(),
+            },
+        });
+        this.userPool = userPool;
+        this.cognito = { userPool, userPoolClient, userPoolDomain };
+        const issuer = `https://cognito-idp.${userPool.env.region}.amazonaws.com/${userPool.userPoolId}`;
+        this.environment = openWebUIOidcEnvironment(props, 'Cognito', issuer, userPoolClient.userPoolClientId);
+        this.secrets = this.clientSecret(userPoolClient.userPoolClientSecret, props.encryptionKey);
+    }
+
+    /** Wraps `next` in the ALB authentication action. */
+    public authenticate(next: ListenerAction): ListenerAction {
+        if (this.cognito) {
+            return new AuthenticateCognitoAction({ ...this.cognito, next });
+        }
+        return ListenerAction.authenticateOidc({ ...this.oidc!, next });
+    }
+
+    // ECS can only inject secrets from Secrets Manager or Parameter Store
+    private clientSecret(value: SecretValue, encryptionKey?: IKey): { [key: string]: ECSSecret } {
+        const secret = new Secret(this, 'ClientSecret', {
+            description: 'OIDC client secret Open WebUI signs users in with',
+            secretStringValue: value,
+            encryptionKey,
+        });
+        return { OAUTH_CLIENT_SECRET: ECSSecret.fromSecretsManager(secret) };
+    }
+}
+
+function openWebUIOidcEnvironment(props: OpenWebUIAuthenticationConstructProps, providerName: string, issuer: string, clientId: string): { [key: string]: string } {
+    return {
+        // Accounts only come from the identity provider
+        ENABLE_SIGNUP: 'false',
+        ENABLE_LOGIN_FORM: 'false',
+        ENABLE_OAUTH_SIGNUP: 'true',
+        OAUTH_MERGE_ACCOUNTS_BY_EMAIL: String(props.mergeAccountsByEmail ?? false),
+        OAUTH_PROVIDER_NAME: providerName,
+        OPENID_PROVIDER_URL: `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+        OPENID_REDIRECT_URI: `https://${props.domainName}${OPEN_WEBUI_OIDC_CALLBACK_PATH}`,
+        OAUTH_CLIENT_ID: clientId,
+        OAUTH_SCOPES: 'openid email profile',
+    };
+}
@@ -0,0 +1,78 @@
+import { Duration } from 'aws-cdk-lib';
+import { ScalingSchedule } from 'aws-cdk-lib/aws-applicationautoscaling';
+import { FargateService } from 'aws-cdk-lib/aws-ecs';
+import { ApplicationTargetGroup } from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+
+export interface OpenWebUIAutoScalingProps {
+    /**
+     * Lowest number of Open WebUI tasks.
+     * @default - `desiredCount`
+     */
+    readonly minCapacity?: number;
+
+    /** Highest number of Open WebUI tasks. */
+    readonly maxCapacity: number;
+
+    /**
+     * Average CPU utilization to keep the service at.
+     * @default 70
+     */
+    readonly targetCpuUtilizationPercent?: number;
+
+    /**
+     * Average memory utilization to keep the service at.
+     * @default - no memory scaling
+     */
+    readonly targetMemoryUtilizationPercent?: number;
+
+    /**
+     * ALB requests per task per minute to keep the service at.
+     * @default - no request count scaling
+     */
+    readonly requestsPerTarget?: number;
+
+    /**
+     * Scheduled changes of the capacity limits, keyed by name, e.g. scaling to zero on weekends.
+     * @default - no scheduled scaling
+     */
+    readonly schedules?: { [name: string]: ScalingSchedule };
+
+    /**
+     * How long the ALB keeps sending a browser to the same task.
+     * @default Duration.days(1)
+     */
+    readonly stickinessDuration?: Duration;
+}
+
+/**
+ * Adds target tracking and scheduled scaling to the Open WebUI service.
+ * The target group must already be attached to a listener for request count scaling.
+ */
+export function configureAutoScaling(
+    service: FargateService,
+    targetGroup: ApplicationTargetGroup,
+    minCapacity: number,
+    props: OpenWebUIAutoScalingProps,
+) {
+    if (props.maxCapacity < minCapacity) {
+        throw new Error(`autoScaling.maxCapacity must be >= ${minCapacity}, got ${props.maxCapacity}`);
+    }
+    const scaling = service.autoScaleTaskCount({ minCapacity, maxCapacity: props.maxCapacity });
+    scaling.scaleOnCpuUtilization('CpuScaling', {
+        targetUtilizationPercent: props.targetCpuUtilizationPercent ?? 70,
+    });
+    if (props.targetMemoryUtilizationPercent !== undefined) {
+        scaling.scaleOnMemoryUtilization('MemoryScaling', {
+            targetUtilizationPercent: props.targetMemoryUtilizationPercent,
+        });
+    }
+    if (props.requestsPerTarget !== undefined) {
+        scaling.scaleOnRequestCount('RequestCountScaling', {
+            requestsPerTarget: props.requestsPerTarget,
+            targetGroup,
+        });
+    }
+    for (const [name, schedule] of Object.entries(props.schedules ?? {})) {
+        scaling.scaleOnSchedule(name, schedule);
+    }
+}
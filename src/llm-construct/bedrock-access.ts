@@ -0,0 +1,150 @@
+import { ArnFormat, Stack } from 'aws-cdk-lib';
+import { Effect, PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { BedrockGuardrail } from './guardrail';
+
+/**
+ * Groups of Bedrock actions the task role can be granted.
+ */
+export enum BedrockActionGroup {
+    /** `bedrock:InvokeModel`, used by `Converse`. */
+    INVOKE = 'INVOKE',
+    /** `bedrock:InvokeModelWithResponseStream`, used by `ConverseStream`. */
+    STREAM = 'STREAM',
+    /** Model and inference profile discovery. */
+    LIST = 'LIST',
+}
+
+export interface BedrockAccessProps {
+    /**
+     * Foundation model IDs the task may invoke, e.g. `anthropic.claude-3-5-sonnet-20240620-v1:0`.
+     * Wildcards are allowed.
+     * @default ['*'] - every foundation model in `regions`
+     */
+    readonly modelIds?: string[];
+
+    /**
+     * Inference profile IDs (e.g. `us.anthropic.claude-3-5-sonnet-20240620-v1:0`) or ARNs the task may invoke.
+     * The foundation models behind a cross-region profile must also be allowed in every region it routes to.
+     * @default - no inference profiles
+     */
+    readonly inferenceProfiles?: string[];
+
+    /**
+     * Regions the task calls Bedrock in. The model and inference profile ARNs are scoped to them,
+     * and `bedrock_models.py` lists models from them in this order.
+     * @default ['us-east-1', 'us-west-2']
+     */
+    readonly regions?: string[];
+
+    /**
+     * Action groups granted on the allowed models. Without `STREAM`, `bedrock_models.py` returns each
+     * answer in one piece instead of streaming it.
+     * @default [BedrockActionGroup.INVOKE, BedrockActionGroup.LIST]
+     */
+    readonly actions?: BedrockActionGroup[];
+
+    /**
+     * Grant `bedrock:*` on all resources, including provisioned throughput and guardrail management.
+     * @default false
+     */
+    readonly allowAdminActions?: boolean;
+}
+
+export const DEFAULT_BEDROCK_REGIONS = ['us-east-1', 'us-west-2'];
+
+const DEFAULT_BEDROCK_ACTIONS = [BedrockActionGroup.INVOKE, BedrockActionGroup.LIST];
+
+const LIST_ACTIONS = [
+    'bedrock:ListFoundationModels',
+    'bedrock:GetFoundationModel',
+    'bedrock:ListInferenceProfiles',
+    'bedrock:GetInferenceProfile',
+];
+
+/**
+ * Container environment telling `bedrock_models.py` which regions and inference profiles to offer and
+ * whether it may stream. Lists are comma-separated; the variables are always set so the pipeline never
+ * falls back to its own defaults.
+ */
+export function bedrockEnvironment(props: BedrockAccessProps = {}): { [key: string]: string } {
+    const actions = props.actions ?? DEFAULT_BEDROCK_ACTIONS;
+    return {
+        BEDROCK_REGIONS: (props.regions ?? DEFAULT_BEDROCK_REGIONS).join(','),
+        BEDROCK_INFERENCE_PROFILES: (props.inferenceProfiles ?? []).join(','),
+        BEDROCK_STREAMING: String(actions.includes(BedrockActionGroup.STREAM) || props.allowAdminActions === true),
+    };
+}
+
+/**
+ * Builds the task role statements for the allowed Bedrock models and actions. With a `guardrail`,
+ * models may only be invoked with its current version applied.
+ */
+export function bedrockPolicyStatements(stack: Stack, props: BedrockAccessProps = {}, guardrail?: BedrockGuardrail): PolicyStatement[] {
+    const modelIds = props.modelIds ?? ['*'];
+    const inferenceProfiles = props.inferenceProfiles ?? [];
+    const regions = props.regions ?? DEFAULT_BEDROCK_REGIONS;
+    const actions = props.actions ?? DEFAULT_BEDROCK_ACTIONS;
+    if (regions.length === 0) {
+        throw new Error('bedrock.regions must contain at least one region');
+    }
+    if (guardrail && props.allowAdminActions) {
+        throw new Error('bedrock.allowAdminActions would allow invocations without the guardrail');
+    }
+
+    const statements: PolicyStatement[] = [];
+    const invokeActions = [
+        ...(actions.includes(BedrockActionGroup.INVOKE) ? ['bedrock:InvokeModel'] : []),
+        ...(actions.includes(BedrockActionGroup.STREAM) ? ['bedrock:InvokeModelWithResponseStream'] : []),
+    ];
+    const modelArns = [
+        ...regions.flatMap((region) => modelIds.map((modelId) => stack.formatArn({
+            service: 'bedrock',
+            region,
+            account: '',
+            resource: 'foundation-model',
+            resourceName: modelId,
+            arnFormat: ArnFormat.SLASH_RESOURCE_NAME,
+        }))),
+        ...inferenceProfiles.flatMap((profile) => profile.startsWith('arn:')
+            ? [profile]
+            : regions.map((region) => stack.formatArn({
+                service: 'bedrock',
+                region,
+                resource: 'inference-profile',
+                resourceName: profile,
+                arnFormat: ArnFormat.SLASH_RESOURCE_NAME,
+            }))),
+    ];
+    if (invokeActions.length > 0 && modelArns.length > 0) {
+        statements.push(new PolicyStatement({
+            effect: Effect.ALLOW,
+            actions: invokeActions,
+            resources: modelArns,
+            conditions: guardrail
+                ? { StringEquals: { 'bedrock:GuardrailIdentifier': guardrail.versionArn } }
+                : undefined,
+        }));
+    }
+    if (guardrail) {
+        statements.push(new PolicyStatement({
+            effect: Effect.ALLOW,
+            actions: ['bedrock:ApplyGuardrail'],
+            resources: [guardrail.guardrailArn],
+        }));
+    }
+    if (actions.includes(BedrockActionGroup.LIST)) {
+        statements.push(new PolicyStatement({
+            effect: Effect.ALLOW,
+            actions: LIST_ACTIONS,
+            resources: ['*'],
+        }));
+    }
+    if (props.allowAdminActions) {
+        statements.push(new PolicyStatement({
+            effect: Effect.ALLOW,
+            actions: ['bedrock:*'],
+            resources: ['*'],
+        }));
+    }
+    return statements;
+}
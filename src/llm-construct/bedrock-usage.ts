@@ -0,0 +1,229 @@
+import { Duration, RemovalPolicy, Stack } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { CfnBudget } from 'aws-cdk-lib/aws-budgets';
+import { Dashboard, GraphWidget, MathExpression } from 'aws-cdk-lib/aws-cloudwatch';
+import { Effect, PolicyStatement, Role, ServicePrincipal } from 'aws-cdk-lib/aws-iam';
+import { IKey } from 'aws-cdk-lib/aws-kms';
+import { LogGroup, RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { BlockPublicAccess, Bucket, BucketEncryption } from 'aws-cdk-lib/aws-s3';
+import { ITopic } from 'aws-cdk-lib/aws-sns';
+import { AwsCustomResource, AwsCustomResourcePolicy, PhysicalResourceId } from 'aws-cdk-lib/custom-resources';
+
+export interface BedrockBudgetProps {
+    /** Monthly Bedrock spend in USD the alert is based on. */
+    readonly monthlyLimitUsd: number;
+
+    /**
+     * Percentage of `monthlyLimitUsd` at which actual spend triggers the alert.
+     * @default 80
+     */
+    readonly thresholdPercent?: number;
+
+    /**
+     * Email addresses notified by AWS Budgets.
+     * @default - none
+     */
+    readonly emails?: string[];
+
+    /**
+     * Topic notified by AWS Budgets. The construct allows AWS Budgets to publish to it.
+     * @default - none
+     */
+    readonly topic?: ITopic;
+
+    /**
+     * Cost Explorer service names counted as Bedrock spend. Third-party models sold through
+     * AWS Marketplace are billed under their own service names and can be added here.
+     * @default ['Amazon Bedrock']
+     */
+    readonly services?: string[];
+}
+
+export interface BedrockUsageProps {
+    /**
+     * Deliver model invocation logs to a CloudWatch log group.
+     * @default true
+     */
+    readonly logToCloudWatch?: boolean;
+
+    /**
+     * Deliver model invocation logs to an S3 bucket.
+     * @default false
+     */
+    readonly logToS3?: boolean;
+
+    /**
+     * How long invocation logs are kept in CloudWatch and S3.
+     * @default RetentionDays.THREE_MONTHS
+     */
+    readonly logRetention?: RetentionDays;
+
+    /**
+     * Alert on monthly Bedrock spend with AWS Budgets.
+     * @default - no budget
+     */
+    readonly budget?: BedrockBudgetProps;
+}
+
+export interface BedrockUsageConstructProps extends BedrockUsageProps {
+    /** Regions the task calls Bedrock in; the dashboard has a row per region. */
+    readonly regions: string[];
+
+    /**
+     * Key the invocation log group is encrypted with.
+     * @default - CloudWatch Logs default encryption
+     */
+    readonly encryptionKey?: IKey;
+}
+
+/**
+ * Bedrock model invocation logging in the stack's region, a usage dashboard per model ID and an
+ * optional AWS Budgets alert. Invocation logging is a per-region account setting, so only one stack
+ * per account and region should enable it.
+ */
+export class BedrockUsage extends Construct {
+    public readonly logGroup?: LogGroup;
+    public readonly logBucket?: Bucket;
+    public readonly dashboard: Dashboard;
+
+    constructor(scope: Construct, id: string, props: BedrockUsageConstructProps) {
+        super(scope, id);
+
+        const stack = Stack.of(this);
+        const logToCloudWatch = props.logToCloudWatch ?? true;
+        const logToS3 = props.logToS3 ?? false;
+        const logRetention = props.logRetention ?? RetentionDays.THREE_MONTHS;
+        if (!logToCloudWatch && !logToS3) {
+            throw new Error('bedrockUsage needs logToCloudWatch or logToS3');
+        }
+        if (props.budget && !props.budget.emails?.length && !props.budget.topic) {
+            throw new Error('bedrockUsage.budget needs emails or a topic');
+        }
+
+        // Bedrock only delivers logs for invocations made from this account
+        const sourceConditions = {
+            StringEquals: { 'aws:SourceAccount': stack.account },
+            ArnLike: { 'aws:SourceArn': stack.formatArn({ service: 'bedrock', resource: '*' }) },
+        };
+        const loggingConfig: { [key: string]: unknown } = {
+            textDataDeliveryEnabled: true,
+            imageDataDeliveryEnabled: false,
+            embeddingDataDeliveryEnabled: false,
+        };
+        let loggingRole: Role | undefined;
+        if (logToCloudWatch) {
+            this.logGroup = new LogGroup(this, 'LogGroup', {
+                retention: logRetention,
+                encryptionKey: props.encryptionKey,
+                removalPolicy: RemovalPolicy.RETAIN,
+            });
+            loggingRole = new Role(this, 'LoggingRole', {
+                assumedBy: new ServicePrincipal('bedrock.amazonaws.com').withConditions(sourceConditions),
+            });
+            this.logGroup.grantWrite(loggingRole);
+            loggingConfig.cloudWatchConfig = {
+                logGroupName: this.logGroup.logGroupName,
+                roleArn: loggingRole.roleArn,
+            };
+        }
+        if (logToS3) {
+            this.logBucket = new Bucket(this, 'LogBucket', {
+                encryption: BucketEncryption.S3_MANAGED,
+                blockPublicAccess: BlockPublicAccess.BLOCK_ALL,
+                enforceSSL: true,
+                removalPolicy: RemovalPolicy.RETAIN,
+                // RetentionDays.INFINITE is not a number of days
+                lifecycleRules: logRetention === RetentionDays.INFINITE ? undefined : [{ expiration: Duration.days(logRetention) }],
+            });
+            this.logBucket.addToResourcePolicy(new PolicyStatement({
+                effect: Effect.ALLOW,
+                principals: [new ServicePrincipal('bedrock.amazonaws.com')],
+                actions: ['s3:PutObject'],
+                resources: [this.logBucket.arnForObjects('*')],
+                conditions: sourceConditions,
+            }));
+            loggingConfig.s3Config = { bucketName: this.logBucket.bucketName };
+        }
+
+        const putLoggingConfiguration = {
+            service: 'Bedrock',
+            action: 'putModelInvocationLoggingConfiguration',
+            parameters: { loggingConfig },
+            physicalResourceId: PhysicalResourceId.of('BedrockInvocationLogging'),
+        };
+        const loggingConfiguration = new AwsCustomResource(this, 'InvocationLoggingConfiguration', {
+            onCreate: putLoggingConfiguration,
+            onUpdate: putLoggingConfiguration,
+            onDelete: {
+                service: 'Bedrock',
+                action: 'deleteModelInvocationLoggingConfiguration',
+            },
+            installLatestAwsSdk: false,
+            policy: AwsCustomResourcePolicy.fromStatements([
+                new PolicyStatement({
+                    actions: ['bedrock:PutModelInvocationLoggingConfiguration', 'bedrock:DeleteModelInvocationLoggingConfiguration'],
+                    resources: ['*'],
+                }),
+                ...(loggingRole ? [new PolicyStatement({ actions: ['iam:PassRole'], resources: [loggingRole.roleArn] })] : []),
+            ]),
+        });
+        // Bedrock checks the destinations when the configuration is saved
+        if (this.logBucket) {
+            loggingConfiguration.node.addDependency(this.logBucket);
+        }
+        if (loggingRole) {
+            loggingConfiguration.node.addDependency(loggingRole);
+        }
+
+        // AWS/Bedrock publishes these metrics per ModelId in the region of the invocation
+        const perModel = (metricName: string, statistic: string, region: string) => new MathExpression({
+            expression: `SEARCH('{AWS/Bedrock,ModelId} MetricName="${metricName}"', '${statistic}', 300)`,
+            usingMetrics: {},
+            searchRegion: region,
+            period: Duration.minutes(5),
+        });
+        this.dashboard = new Dashboard(this, 'Dashboard');
+        for (const region of props.regions) {
+            this.dashboard.addWidgets(
+                new GraphWidget({ title: `Invocations (${region})`, left: [perModel('Invocations', 'Sum', region)], width: 6 }),
+                new GraphWidget({
+                    title: `Tokens (${region})`,
+                    left: [perModel('InputTokenCount', 'Sum', region)],
+                    right: [perModel('OutputTokenCount', 'Sum', region)],
+                    width: 6,
+                }),
+                new GraphWidget({ title: `Throttles (${region})`, left: [perModel('InvocationThrottles', 'Sum', region)], width: 6 }),
+                new GraphWidget({ title: `Latency (${region})`, left: [perModel('InvocationLatency', 'Average', region)], width: 6 }),
+            );
+        }
+
+        if (props.budget) {
+            const topic = props.budget.topic;
+            topic?.addToResourcePolicy(new PolicyStatement({
+                principals: [new ServicePrincipal('budgets.amazonaws.com')],
+                actions: ['SNS:Publish'],
+                resources: [topic.topicArn],
+            }));
+            new CfnBudget(this, 'Budget', {
+                budget: {
+                    budgetType: 'COST',
+                    timeUnit: 'MONTHLY',
+                    budgetLimit: { amount: props.budget.monthlyLimitUsd, unit: 'USD' },
+                    costFilters: { Service: props.budget.services ?? ['Amazon Bedrock'] },
+                },
+                notificationsWithSubscribers: [{
+                    notification: {
+                        notificationType: 'ACTUAL',
+                        comparisonOperator: 'GREATER_THAN',
+                        threshold: props.budget.thresholdPercent ?? 80,
+                        thresholdType: 'PERCENTAGE',
+                    },
+                    subscribers: [
+                        ...(props.budget.emails ?? []).map((address) => ({ subscriptionType: 'EMAIL', address })),
+                        ...(topic ? [{ subscriptionType: 'SNS', address: topic.topicArn }] : []),
+                    ],
+                }],
+            });
+        }
+    }
+}
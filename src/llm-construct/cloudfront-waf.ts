@@ -0,0 +1,174 @@
+import { ArnFormat, Names, RemovalPolicy, Stack, Token } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { IKey } from 'aws-cdk-lib/aws-kms';
+import { LogGroup, RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { CfnIPSet, CfnLoggingConfiguration, CfnWebACL } from 'aws-cdk-lib/aws-wafv2';
+
+export interface CloudFrontWafProps {
+    /**
+     * Only count matching requests instead of blocking them, to check for false positives before enforcing.
+     * @default false
+     */
+    readonly countOnly?: boolean;
+
+    /**
+     * Requests per 5 minutes a single IP may send to `/api/*` before it is blocked, an integer from
+     * 10 to 2,000,000,000.
+     * @default 2000
+     */
+    readonly apiRateLimit?: number;
+
+    /**
+     * ISO 3166 country codes allowed to reach Open WebUI.
+     * @default - all countries
+     */
+    readonly allowedCountries?: string[];
+
+    /**
+     * CIDR ranges allowed to reach Open WebUI.
+     * @default - all addresses
+     */
+    readonly allowedCidrs?: string[];
+
+    /**
+     * Log requests the web ACL evaluates.
+     * @default true
+     */
+    readonly enableLogging?: boolean;
+
+    /**
+     * ARN of the CloudWatch log group, S3 bucket or Firehose stream the logs go to. Its name must start with `aws-waf-logs-`.
+     * @default - a CloudWatch log group is created
+     */
+    readonly logDestinationArn?: string;
+
+    /**
+     * Retention of a created log group.
+     * @default RetentionDays.THREE_MONTHS
+     */
+    readonly logRetention?: RetentionDays;
+
+    /**
+     * Key a created log group is encrypted with.
+     * @default - CloudWatch Logs default encryption
+     */
+    readonly logEncryptionKey?: IKey;
+}
+
+/**
+ * WAF web ACL for the Open WebUI CloudFront distribution. CloudFront web ACLs must be created in us-east-1.
+ */
+export class CloudFrontWebAcl extends Construct {
+    public readonly webAcl: CfnWebACL;
+
+    /** ARN to pass to the distribution's `webAclId`. */
+    public readonly webAclArn: string;
+
+    constructor(scope: Construct, id: string, props: CloudFrontWafProps = {}) {
+        super(scope, id);
+
+        const apiRateLimit = props.apiRateLimit ?? 2000;
+        if (!Token.isUnresolved(apiRateLimit) && (!Number.isInteger(apiRateLimit) || apiRateLimit < 10 || apiRateLimit > 2_000_000_000)) {
+            throw new Error(`cloudFrontWaf.apiRateLimit must be an integer from 10 to 2000000000, got ${apiRateLimit}`);
+        }
+        const countOnly = props.countOnly ?? false;
+        const visibilityConfig = (metricName: string): CfnWebACL.VisibilityConfigProperty => ({
+            cloudWatchMetricsEnabled: true,
+            metricName,
+            sampledRequestsEnabled: true,
+        });
+        const blockAction: CfnWebACL.RuleActionProperty = countOnly ? { count: {} } : { block: {} };
+        const rules: CfnWebACL.RuleProperty[] = [];
+        const addRule = (rule: Omit<CfnWebACL.RuleProperty, 'priority' | 'visibilityConfig'>) => {
+            rules.push({ ...rule, priority: rules.length, visibilityConfig: visibilityConfig(rule.name) });
+        };
+
+        if (props.allowedCountries?.length) {
+            addRule({
+                name: 'BlockOutsideAllowedCountries',
+                action: blockAction,
+                statement: { notStatement: { statement: { geoMatchStatement: { countryCodes: props.allowedCountries } } } },
+            });
+        }
+        if (props.allowedCidrs?.length) {
+            const ipSetStatements: CfnWebACL.StatementProperty[] = [];
+            const ipv4 = props.allowedCidrs.filter((cidr) => !cidr.includes(':'));
+            const ipv6 = props.allowedCidrs.filter((cidr) => cidr.includes(':'));
+            if (ipv4.length > 0) {
+                const ipSet = new CfnIPSet(this, 'AllowedIpv4', { scope: 'CLOUDFRONT', ipAddressVersion: 'IPV4', addresses: ipv4 });
+                ipSetStatements.push({ ipSetReferenceStatement: { arn: ipSet.attrArn } });
+            }
+            if (ipv6.length > 0) {
+                const ipSet = new CfnIPSet(this, 'AllowedIpv6', { scope: 'CLOUDFRONT', ipAddressVersion: 'IPV6', addresses: ipv6 });
+                ipSetStatements.push({ ipSetReferenceStatement: { arn: ipSet.attrArn } });
+            }
+            addRule({
+                name: 'BlockOutsideAllowedIps',
+                action: blockAction,
+                statement: {
+                    notStatement: {
+                        statement: ipSetStatements.length > 1 ? { orStatement: { statements: ipSetStatements } } : ipSetStatements[0],
+                    },
+                },
+            });
+        }
+        const addManagedRuleGroup = (name: string, ruleActionOverrides?: CfnWebACL.RuleActionOverrideProperty[]) => addRule({
+            name,
+            overrideAction: countOnly ? { count: {} } : { none: {} },
+            statement: { managedRuleGroupStatement: { vendorName: 'AWS', name, ruleActionOverrides } },
+        });
+        addManagedRuleGroup('AWSManagedRulesAmazonIpReputationList');
+        // Prompts, chat history and uploads routinely exceed the rule group's 8 KB body limit
+        addManagedRuleGroup('AWSManagedRulesCommonRuleSet', [{ name: 'SizeRestrictions_BODY', actionToUse: { count: {} } }]);
+        addManagedRuleGroup('AWSManagedRulesKnownBadInputsRuleSet');
+        addRule({
+            name: 'ApiRateLimitPerIp',
+            action: blockAction,
+            statement: {
+                rateBasedStatement: {
+                    limit: apiRateLimit,
+                    aggregateKeyType: 'IP',
+                    scopeDownStatement: {
+                        byteMatchStatement: {
+                            fieldToMatch: { uriPath: {} },
+                            positionalConstraint: 'STARTS_WITH',
+                            searchString: '/api/',
+                            textTransformations: [{ priority: 0, type: 'NONE' }],
+                        },
+                    },
+                },
+            },
+        });
+
+        this.webAcl = new CfnWebACL(this, 'WebAcl', {
+            scope: 'CLOUDFRONT',
+            defaultAction: { allow: {} },
+            visibilityConfig: visibilityConfig('OpenWebUIWebAcl'),
+            rules,
+        });
+        this.webAclArn = this.webAcl.attrArn;
+
+        if (props.enableLogging ?? true) {
+            let logDestinationArn = props.logDestinationArn;
+            if (!logDestinationArn) {
+                const logGroup = new LogGroup(this, 'LogGroup', {
+                    logGroupName: `aws-waf-logs-${Names.uniqueResourceName(this, { maxLength: 400 })}`,
+                    retention: props.logRetention ?? RetentionDays.THREE_MONTHS,
+                    encryptionKey: props.logEncryptionKey,
+                    removalPolicy: RemovalPolicy.RETAIN,
+                });
+                // WAF expects the log group ARN without the trailing `:*`
+                logDestinationArn = Stack.of(this).formatArn({
+                    service: 'logs',
+                    resource: 'log-group',
+                    resourceName: logGroup.logGroupName,
+                    arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+                });
+            }
+            new CfnLoggingConfiguration(this, 'Logging', {
+                resourceArn: this.webAcl.attrArn,
+                logDestinationConfigs: [logDestinationArn],
+            });
+        }
+    }
+}
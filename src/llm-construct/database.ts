@@ -0,0 +1,132 @@
+import { Duration, RemovalPolicy } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { IConnectable, IVpc, SecurityGroup, SubnetSelection } from 'aws-cdk-lib/aws-ec2';
+import { Secret as ECSSecret } from 'aws-cdk-lib/aws-ecs';
+import { IKey } from 'aws-cdk-lib/aws-kms';
+import {
+    AuroraPostgresEngineVersion,
+    ClusterInstance,
+    Credentials,
+    DatabaseCluster,
+    DatabaseClusterEngine,
+} from 'aws-cdk-lib/aws-rds';
+
+const DATABASE_NAME = 'openwebui';
+
+// Characters that would have to be percent-encoded in DATABASE_URL
+const EXCLUDED_PASSWORD_CHARACTERS = ' %+~`#$&*()|[]{}:;<>?!\'/@"\\=,^';
+
+export interface OpenWebUIDatabaseProps {
+    /**
+     * Aurora PostgreSQL engine version.
+     * @default AuroraPostgresEngineVersion.VER_16_4
+     */
+    readonly engineVersion?: AuroraPostgresEngineVersion;
+
+    /**
+     * Minimum Aurora capacity units of the Serverless v2 writer.
+     * @default 0.5
+     */
+    readonly minCapacity?: number;
+
+    /**
+     * Maximum Aurora capacity units of the Serverless v2 writer.
+     * @default 4
+     */
+    readonly maxCapacity?: number;
+
+    /**
+     * Subnets the database runs in.
+     * @default - the VPC's private subnets
+     */
+    readonly subnets?: SubnetSelection;
+
+    /**
+     * What happens to the cluster when it is removed from the stack.
+     * @default RemovalPolicy.SNAPSHOT
+     */
+    readonly removalPolicy?: RemovalPolicy;
+
+    /**
+     * How long automated snapshots are kept.
+     * @default Duration.days(7)
+     */
+    readonly backupRetention?: Duration;
+
+    /**
+     * Prevent the cluster from being deleted.
+     * @default false
+     */
+    readonly deletionProtection?: boolean;
+}
+
+export interface OpenWebUIDatabaseConstructProps extends OpenWebUIDatabaseProps {
+    readonly vpc: IVpc;
+
+    /**
+     * Key the storage and the credentials secret are encrypted with.
+     * @default - AWS managed keys
+     */
+    readonly encryptionKey?: IKey;
+}
+
+/**
+ * Aurora Serverless v2 PostgreSQL cluster holding Open WebUI's state instead of SQLite on EFS.
+ */
+export class OpenWebUIDatabase extends Construct {
+    public readonly cluster: DatabaseCluster;
+
+    /** Container secrets `command` assembles into `DATABASE_URL`. */
+    public readonly secrets: { [key: string]: ECSSecret };
+
+    /**
+     * Container command that exports `DATABASE_URL` before running the image's start script,
+     * because ECS can only inject single secret fields.
+     */
+    public readonly command: string[] = [
+        'bash',
+        '-c',
+        'export DATABASE_URL="postgresql://$DATABASE_USER:$DATABASE_PASSWORD@$DATABASE_HOST:$DATABASE_PORT/$DATABASE_NAME" && exec bash start.sh',
+    ];
+
+    constructor(scope: Construct, id: string, props: OpenWebUIDatabaseConstructProps) {
+        super(scope, id);
+
+        const securityGroup = new SecurityGroup(this, 'SecurityGroup', { vpc: props.vpc, allowAllOutbound: false });
+        this.cluster = new DatabaseCluster(this, 'Cluster', {
+            engine: DatabaseClusterEngine.auroraPostgres({
+                version: props.engineVersion ?? AuroraPostgresEngineVersion.VER_16_4,
+            }),
+            credentials: Credentials.fromGeneratedSecret('openwebui', {
+                excludeCharacters: EXCLUDED_PASSWORD_CHARACTERS,
+                encryptionKey: props.encryptionKey,
+            }),
+            defaultDatabaseName: DATABASE_NAME,
+            writer: ClusterInstance.serverlessV2('Writer'),
+            serverlessV2MinCapacity: props.minCapacity ?? 0.5,
+            serverlessV2MaxCapacity: props.maxCapacity ?? 4,
+            vpc: props.vpc,
+            vpcSubnets: props.subnets,
+            securityGroups: [securityGroup],
+            storageEncrypted: true,
+            storageEncryptionKey: props.encryptionKey,
+            backup: { retention: props.backupRetention ?? Duration.days(7) },
+            removalPolicy: props.removalPolicy ?? RemovalPolicy.SNAPSHOT,
+            deletionProtection: props.deletionProtection ?? false,
+        });
+
+        const secret = this.cluster.secret!;
+        this.secrets = {
+            DATABASE_USER: ECSSecret.fromSecretsManager(secret, 'username'),
+            DATABASE_PASSWORD: ECSSecret.fromSecretsManager(secret, 'password'),
+            DATABASE_HOST: ECSSecret.fromSecretsManager(secret, 'host'),
+            DATABASE_PORT: ECSSecret.fromSecretsManager(secret, 'port'),
+            DATABASE_NAME: ECSSecret.fromSecretsManager(secret, 'dbname'),
+        };
+    }
+
+    /** Allows `client` to connect to the database port. */
+    public allowFrom(client: IConnectable) {
+        this.cluster.connections.allowDefaultPortFrom(client);
+    }
+}
@@ -0,0 +1,143 @@
+import { Names, Stack, Token } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { Certificate, CertificateValidation, ICertificate } from 'aws-cdk-lib/aws-certificatemanager';
+import { IDistribution } from 'aws-cdk-lib/aws-cloudfront';
+import { IApplicationLoadBalancer } from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import { AaaaRecord, ARecord, IHostedZone, RecordTarget } from 'aws-cdk-lib/aws-route53';
+import { CloudFrontTarget, LoadBalancerTarget } from 'aws-cdk-lib/aws-route53-targets';
+
+export interface OpenWebUIDomainProps {
+    /** Route 53 hosted zone the records are created in. */
+    readonly hostedZone: IHostedZone;
+
+    /** Domain name users open the chat UI on, e.g. `chat.example.com`. */
+    readonly domainName: string;
+
+    /**
+     * Domain name of the pipelines endpoint, e.g. `pipelines.example.com`.
+     * @default - no pipelines record
+     */
+    readonly pipelinesDomainName?: string;
+
+    /**
+     * Domain name CloudFront uses to reach the Open WebUI ALB over HTTPS.
+     * @default `origin.<domainName>`
+     */
+    readonly originDomainName?: string;
+
+    /**
+     * Certificate in us-east-1 covering `domainName`, used by CloudFront.
+     * @default - a DNS-validated certificate is created in this stack in us-east-1, or in
+     * `cloudFrontCertificateStack` elsewhere
+     */
+    readonly cloudFrontCertificate?: ICertificate;
+
+    /**
+     * Stack in us-east-1 to create the CloudFront certificate in when this stack is in another region.
+     * Both stacks need `crossRegionReferences` and an explicit environment.
+     * @default - required outside us-east-1 unless `cloudFrontCertificate` is set
+     */
+    readonly cloudFrontCertificateStack?: Stack;
+}
+
+export interface OpenWebUIDomainConstructProps extends OpenWebUIDomainProps {
+    /**
+     * Certificate in the stack's region for the load balancers.
+     * @default - a DNS-validated certificate covering the origin and pipelines domain names is created
+     */
+    readonly loadBalancerCertificate?: ICertificate;
+
+    /**
+     * Whether CloudFront forwards the viewer `Host` header to the ALB. CloudFront then verifies the
+     * origin certificate against `domainName`, so the created load balancer certificate covers it too.
+     * @default false
+     */
+    readonly forwardHostHeader?: boolean;
+}
+
+/**
+ * Certificates and Route 53 alias records for serving Open WebUI and pipelines on custom domain names.
+ */
+export class OpenWebUIDomain extends Construct {
+    public readonly domainName: string;
+    public readonly originDomainName: string;
+    public readonly pipelinesDomainName?: string;
+
+    /** Certificate for the load balancers, in the stack's region. */
+    public readonly loadBalancerCertificate: ICertificate;
+
+    /** Certificate for the CloudFront distribution, in us-east-1. */
+    public readonly cloudFrontCertificate: ICertificate;
+
+    private readonly hostedZone: IHostedZone;
+
+    constructor(scope: Construct, id: string, props: OpenWebUIDomainConstructProps) {
+        super(scope, id);
+
+        this.hostedZone = props.hostedZone;
+        this.domainName = props.domainName;
+        this.originDomainName = props.originDomainName ?? `origin.${props.domainName}`;
+        this.pipelinesDomainName = props.pipelinesDomainName;
+
+        const subjectAlternativeNames = [
+            ...(props.forwardHostHeader ? [this.domainName] : []),
+            ...(this.pipelinesDomainName ? [this.pipelinesDomainName] : []),
+        ];
+        this.loadBalancerCertificate = props.loadBalancerCertificate ?? new Certificate(this, 'LoadBalancerCertificate', {
+            domainName: this.originDomainName,
+            subjectAlternativeNames: subjectAlternativeNames.length > 0 ? subjectAlternativeNames : undefined,
+            validation: CertificateValidation.fromDns(this.hostedZone),
+        });
+
+        const region = Stack.of(this).region;
+        const certificateStack = props.cloudFrontCertificateStack;
+        if (props.cloudFrontCertificate) {
+            this.cloudFrontCertificate = props.cloudFrontCertificate;
+        } else if (!Token.isUnresolved(region) && region === 'us-east-1') {
+            this.cloudFrontCertificate = new Certificate(this, 'CloudFrontCertificate', {
+                domainName: this.domainName,
+                validation: CertificateValidation.fromDns(this.hostedZone),
+            });
+        } else if (certificateStack) {
+            if (!Token.isUnresolved(certificateStack.region) && certificateStack.region !== 'us-east-1') {
+                throw new Error(`domain.cloudFrontCertificateStack must be in us-east-1, got ${certificateStack.region}`);
+            }
+            // A Certificate is created in its stack's region; the ID keeps certificates of several domains apart
+            this.cloudFrontCertificate = new Certificate(certificateStack, `${Names.uniqueId(this)}CloudFrontCertificate`, {
+                domainName: this.domainName,
+                validation: CertificateValidation.fromDns(this.hostedZone),
+            });
+        } else {
+            const location = Token.isUnresolved(region) ? 'an environment-agnostic stack' : region;
+            throw new Error(`CloudFront needs a certificate in us-east-1, but the stack is in ${location}; pass domain.cloudFrontCertificate or domain.cloudFrontCertificateStack`);
+        }
+    }
+
+    /** Points `originDomainName` at the Open WebUI ALB. */
+    public addOriginRecord(loadBalancer: IApplicationLoadBalancer) {
+        new ARecord(this, 'OriginAliasRecord', {
+            zone: this.hostedZone,
+            recordName: this.originDomainName,
+            target: RecordTarget.fromAlias(new LoadBalancerTarget(loadBalancer)),
+        });
+    }
+
+    /** Points `domainName` at the CloudFront distribution. */
+    public addDistributionRecords(distribution: IDistribution) {
+        const target = RecordTarget.fromAlias(new CloudFrontTarget(distribution));
+        new ARecord(this, 'WebUIAliasRecord', { zone: this.hostedZone, recordName: this.domainName, target });
+        new AaaaRecord(this, 'WebUIAliasRecordIpv6', { zone: this.hostedZone, recordName: this.domainName, target });
+    }
+
+    /** Points `pipelinesDomainName`, if set, at the pipelines ALB. */
+    public addPipelinesRecord(loadBalancer: IApplicationLoadBalancer) {
+        if (!this.pipelinesDomainName) {
+            return;
+        }
+        new ARecord(this, 'PipelinesAliasRecord', {
+            zone: this.hostedZone,
+            recordName: this.pipelinesDomainName,
+            target: RecordTarget.fromAlias(new LoadBalancerTarget(loadBalancer)),
+        });
+    }
+}
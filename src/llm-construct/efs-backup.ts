@@ -0,0 +1,71 @@
+import { Duration, RemovalPolicy } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { BackupPlan, BackupPlanRule, BackupResource, BackupVault, IBackupVault } from 'aws-cdk-lib/aws-backup';
+import { IFileSystem } from 'aws-cdk-lib/aws-efs';
+import { Schedule } from 'aws-cdk-lib/aws-events';
+import { IKey } from 'aws-cdk-lib/aws-kms';
+
+export interface EfsBackupProps {
+    /**
+     * How long daily recovery points are kept.
+     * @default Duration.days(35)
+     */
+    readonly dailyRetention?: Duration;
+
+    /**
+     * How long weekly recovery points are kept.
+     * @default Duration.days(365)
+     */
+    readonly weeklyRetention?: Duration;
+
+    /**
+     * Vault the recovery points are stored in.
+     * @default - a vault that is retained when the stack is deleted
+     */
+    readonly backupVault?: IBackupVault;
+}
+
+export interface EfsBackupConstructProps extends EfsBackupProps {
+    readonly fileSystem: IFileSystem;
+
+    /**
+     * Key a created vault encrypts recovery points with.
+     * @default - the AWS managed key for AWS Backup
+     */
+    readonly encryptionKey?: IKey;
+}
+
+/**
+ * AWS Backup plan taking daily and weekly recovery points of the EFS file system.
+ */
+export class EfsBackup extends Construct {
+    public readonly backupPlan: BackupPlan;
+
+    constructor(scope: Construct, id: string, props: EfsBackupConstructProps) {
+        super(scope, id);
+
+        // The vault outlives the stack, so recovery points survive a destroy
+        const backupVault = props.backupVault ?? new BackupVault(this, 'Vault', {
+            encryptionKey: props.encryptionKey,
+            removalPolicy: RemovalPolicy.RETAIN,
+        });
+        this.backupPlan = new BackupPlan(this, 'Plan', {
+            backupVault,
+            backupPlanRules: [
+                new BackupPlanRule({
+                    ruleName: 'Daily',
+                    scheduleExpression: Schedule.cron({ hour: '5', minute: '0' }),
+                    deleteAfter: props.dailyRetention ?? Duration.days(35),
+                }),
+                new BackupPlanRule({
+                    ruleName: 'Weekly',
+                    scheduleExpression: Schedule.cron({ weekDay: 'SUN', hour: '5', minute: '0' }),
+                    deleteAfter: props.weeklyRetention ?? Duration.days(365),
+                }),
+            ],
+        });
+        this.backupPlan.addSelection('Selection', {
+            resources: [BackupResource.fromEfsFileSystem(props.fileSystem)],
+        });
+    }
+}
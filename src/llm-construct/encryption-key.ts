@@ -0,0 +1,86 @@
+import { ArnFormat, Stack } from 'aws-cdk-lib';
+import { AccountRootPrincipal, IRole, PolicyDocument, PolicyStatement, ServicePrincipal } from 'aws-cdk-lib/aws-iam';
+
+/** Actions the account keeps on the key without being able to use it. */
+const KEY_ADMIN_ACTIONS = [
+    'kms:Describe*',
+    'kms:Get*',
+    'kms:List*',
+    'kms:Enable*',
+    'kms:Disable*',
+    'kms:Put*',
+    'kms:Update*',
+    'kms:Revoke*',
+    'kms:Delete*',
+    'kms:CreateAlias',
+    'kms:TagResource',
+    'kms:UntagResource',
+    'kms:ScheduleKeyDeletion',
+    'kms:CancelKeyDeletion',
+];
+
+const KEY_USAGE_ACTIONS = ['kms:Encrypt', 'kms:Decrypt', 'kms:ReEncrypt*', 'kms:GenerateDataKey*', 'kms:DescribeKey'];
+
+/**
+ * Policy of the key the construct creates. The account can administer the key, and its principals can
+ * only use it through `services` (endpoint prefixes such as `secretsmanager`), on top of the IAM
+ * permissions they are granted. Anything else has to be added to the policy explicitly.
+ */
+export function encryptionKeyPolicy(stack: Stack, services: string[]): PolicyDocument {
+    return new PolicyDocument({
+        statements: [
+            new PolicyStatement({
+                sid: 'KeyAdministration',
+                principals: [new AccountRootPrincipal()],
+                actions: KEY_ADMIN_ACTIONS,
+                resources: ['*'],
+            }),
+            new PolicyStatement({
+                sid: 'UseThroughServices',
+                principals: [new AccountRootPrincipal()],
+                actions: [...KEY_USAGE_ACTIONS, 'kms:CreateGrant'],
+                resources: ['*'],
+                conditions: {
+                    StringEquals: {
+                        'kms:CallerAccount': stack.account,
+                        'kms:ViaService': services.map((service) => `${service}.${stack.region}.amazonaws.com`),
+                    },
+                },
+            }),
+            logsKeyPolicyStatement(stack),
+        ],
+    });
+}
+
+/** CloudWatch Logs uses the key itself, so it needs a key policy statement rather than an IAM grant. */
+export function logsKeyPolicyStatement(stack: Stack): PolicyStatement {
+    return new PolicyStatement({
+        sid: 'CloudWatchLogs',
+        principals: [new ServicePrincipal(`logs.${stack.region}.amazonaws.com`)],
+        actions: ['kms:Encrypt*', 'kms:Decrypt*', 'kms:ReEncrypt*', 'kms:GenerateDataKey*', 'kms:Describe*'],
+        resources: ['*'],
+        conditions: {
+            ArnLike: {
+                'kms:EncryptionContext:aws:logs:arn': stack.formatArn({
+                    service: 'logs',
+                    resource: 'log-group',
+                    resourceName: '*',
+                    arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+                }),
+            },
+        },
+    });
+}
+
+/** Lets the task and execution roles decrypt the container secrets, and nothing else. */
+export function taskKeyPolicyStatement(stack: Stack, roles: IRole[]): PolicyStatement {
+    return new PolicyStatement({
+        sid: 'TaskSecrets',
+        principals: roles,
+        actions: ['kms:Decrypt', 'kms:DescribeKey'],
+        resources: ['*'],
+        conditions: {
+            StringEquals: { 'kms:ViaService': `secretsmanager.${stack.region}.amazonaws.com` },
+        },
+    });
+}
@@ -0,0 +1,161 @@
+import { createHash } from 'crypto';
+import { Names } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { CfnGuardrail, CfnGuardrailVersion } from 'aws-cdk-lib/aws-bedrock';
+
+export enum GuardrailFilterStrength {
+    NONE = 'NONE',
+    LOW = 'LOW',
+    MEDIUM = 'MEDIUM',
+    HIGH = 'HIGH',
+}
+
+export enum GuardrailPiiAction {
+    /** Reject the prompt or response. */
+    BLOCK = 'BLOCK',
+    /** Replace the entity with its type, e.g. `{EMAIL}`. */
+    ANONYMIZE = 'ANONYMIZE',
+}
+
+export interface GuardrailContentFilters {
+    /** @default GuardrailFilterStrength.HIGH */
+    readonly sexual?: GuardrailFilterStrength;
+    /** @default GuardrailFilterStrength.HIGH */
+    readonly violence?: GuardrailFilterStrength;
+    /** @default GuardrailFilterStrength.HIGH */
+    readonly hate?: GuardrailFilterStrength;
+    /** @default GuardrailFilterStrength.HIGH */
+    readonly insults?: GuardrailFilterStrength;
+    /** @default GuardrailFilterStrength.HIGH */
+    readonly misconduct?: GuardrailFilterStrength;
+    /**
+     * Jailbreak and prompt injection attempts; only applies to prompts.
+     * @default GuardrailFilterStrength.HIGH
+     */
+    readonly promptAttack?: GuardrailFilterStrength;
+}
+
+export interface GuardrailDeniedTopic {
+    readonly name: string;
+
+    /** What the topic covers, in up to 200 characters. */
+    readonly definition: string;
+
+    /**
+     * Example prompts on the topic.
+     * @default - none
+     */
+    readonly examples?: string[];
+}
+
+export interface BedrockGuardrailProps {
+    /**
+     * Strength of the content filters on prompts and responses.
+     * @default - every filter at GuardrailFilterStrength.HIGH
+     */
+    readonly contentFilters?: GuardrailContentFilters;
+
+    /**
+     * Topics prompts and responses may not touch.
+     * @default - none
+     */
+    readonly deniedTopics?: GuardrailDeniedTopic[];
+
+    /**
+     * Action per PII entity type, e.g. `{ EMAIL: GuardrailPiiAction.ANONYMIZE }`.
+     * @default - PII is not filtered
+     */
+    readonly piiEntities?: { [type: string]: GuardrailPiiAction };
+
+    /**
+     * Words and phrases to block.
+     * @default - none
+     */
+    readonly blockedWords?: string[];
+
+    /**
+     * Block the AWS managed profanity list.
+     * @default false
+     */
+    readonly blockProfanity?: boolean;
+
+    /**
+     * Message returned instead of the response when a prompt is blocked.
+     * @default 'This request was blocked by the organization's content policy.'
+     */
+    readonly blockedInputMessage?: string;
+
+    /**
+     * Message returned when a response is blocked.
+     * @default 'The response was blocked by the organization's content policy.'
+     */
+    readonly blockedOutputMessage?: string;
+}
+
+/**
+ * Bedrock guardrail and a version of it that changes whenever the configuration does.
+ */
+export class BedrockGuardrail extends Construct {
+    public readonly guardrail: CfnGuardrail;
+
+    public readonly guardrailId: string;
+
+    public readonly guardrailArn: string;
+
+    /** Version number the containers use. */
+    public readonly version: string;
+
+    /** Guardrail ARN with version, the value of the `bedrock:GuardrailIdentifier` condition key. */
+    public readonly versionArn: string;
+
+    constructor(scope: Construct, id: string, props: BedrockGuardrailProps = {}) {
+        super(scope, id);
+
+        const filters = props.contentFilters ?? {};
+        const strengths: { [type: string]: GuardrailFilterStrength } = {
+            SEXUAL: filters.sexual ?? GuardrailFilterStrength.HIGH,
+            VIOLENCE: filters.violence ?? GuardrailFilterStrength.HIGH,
+            HATE: filters.hate ?? GuardrailFilterStrength.HIGH,
+            INSULTS: filters.insults ?? GuardrailFilterStrength.HIGH,
+            MISCONDUCT: filters.misconduct ?? GuardrailFilterStrength.HIGH,
+            PROMPT_ATTACK: filters.promptAttack ?? GuardrailFilterStrength.HIGH,
+        };
+        const filtersConfig = Object.entries(strengths)
+            .filter(([, strength]) => strength !== GuardrailFilterStrength.NONE)
+            .map(([type, strength]) => ({
+                type,
+                inputStrength: strength,
+                // Prompt attacks can only be detected in prompts
+                outputStrength: type === 'PROMPT_ATTACK' ? GuardrailFilterStrength.NONE : strength,
+            }));
+        const piiEntitiesConfig = Object.entries(props.piiEntities ?? {}).map(([type, action]) => ({ type, action }));
+
+        this.guardrail = new CfnGuardrail(this, 'Guardrail', {
+            name: Names.uniqueResourceName(this, { maxLength: 50 }),
+            blockedInputMessaging: props.blockedInputMessage ?? 'This request was blocked by the organization\'s content policy.',
+            blockedOutputsMessaging: props.blockedOutputMessage ?? 'The response was blocked by the organization\'s content policy.',
+            contentPolicyConfig: filtersConfig.length > 0 ? { filtersConfig } : undefined,
+            topicPolicyConfig: props.deniedTopics?.length
+                ? { topicsConfig: props.deniedTopics.map((topic) => ({ ...topic, type: 'DENY' })) }
+                : undefined,
+            sensitiveInformationPolicyConfig: piiEntitiesConfig.length > 0 ? { piiEntitiesConfig } : undefined,
+            wordPolicyConfig: props.blockedWords?.length || props.blockProfanity
+                ? {
+                    wordsConfig: props.blockedWords?.length ? props.blockedWords.map((text) => ({ text })) : undefined,
+                    managedWordListsConfig: props.blockProfanity ? [{ type: 'PROFANITY' }] : undefined,
+                }
+                : undefined,
+        });
+        this.guardrailId = this.guardrail.attrGuardrailId;
+        this.guardrailArn = this.guardrail.attrGuardrailArn;
+
+        // A version is a snapshot taken when it is created, so a changed configuration must replace it
+        const configHash = createHash('sha256').update(JSON.stringify(props)).digest('hex').slice(0, 16);
+        const version = new CfnGuardrailVersion(this, 'Version', {
+            guardrailIdentifier: this.guardrailId,
+            description: `Configuration ${configHash}`,
+        });
+        this.version = version.attrVersion;
+        this.versionArn = `${this.guardrailArn}:${this.version}`;
+    }
+}
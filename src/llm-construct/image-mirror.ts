@@ -0,0 +1,100 @@
+import { Names, RemovalPolicy, Token } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { CfnPullThroughCacheRule, Repository } from 'aws-cdk-lib/aws-ecr';
+import { ContainerImage } from 'aws-cdk-lib/aws-ecs';
+import { Grant, IGrantable } from 'aws-cdk-lib/aws-iam';
+import { ISecret } from 'aws-cdk-lib/aws-secretsmanager';
+
+const REPOSITORY_PREFIX_PATTERN = /^[a-z0-9]+(?:[._-][a-z0-9]+)*(?:\/[a-z0-9]+(?:[._-][a-z0-9]+)*)*$/;
+
+export interface OpenWebUIImageMirrorProps {
+    /**
+     * Secret with the `username` and `accessToken` (a GitHub token allowed to read packages) ECR uses
+     * to pull from ghcr.io. Its name must start with `ecr-pullthroughcache/`.
+     */
+    readonly upstreamCredentials: ISecret;
+
+    /**
+     * Prefix of the mirror repositories, e.g. `ghcr` for `ghcr/open-webui/open-webui`. A pull-through
+     * cache rule is unique per prefix in an account and region.
+     * @default - a prefix unique to the construct
+     */
+    readonly repositoryPrefix?: string;
+
+    /**
+     * Images kept in each repository; older ones are expired.
+     * @default 10
+     */
+    readonly maxImageCount?: number;
+}
+
+/**
+ * ECR repositories mirroring ghcr.io through a pull-through cache rule. An image is copied into its
+ * repository the first time a task pulls it, and keeps the upstream digest.
+ */
+export class OpenWebUIImageMirror extends Construct {
+    public readonly repositoryPrefix: string;
+
+    private readonly maxImageCount: number;
+
+    private readonly repositories: { [upstreamRepository: string]: Repository } = {};
+
+    constructor(scope: Construct, id: string, props: OpenWebUIImageMirrorProps) {
+        super(scope, id);
+
+        this.repositoryPrefix = props.repositoryPrefix
+            ?? Names.uniqueResourceName(this, { maxLength: 30, separator: '-' }).toLowerCase();
+        this.maxImageCount = props.maxImageCount ?? 10;
+        if (!Token.isUnresolved(this.repositoryPrefix)
+            && (!REPOSITORY_PREFIX_PATTERN.test(this.repositoryPrefix) || this.repositoryPrefix.length < 2 || this.repositoryPrefix.length > 30)) {
+            throw new Error(`imageMirror.repositoryPrefix is not a valid repository prefix: '${this.repositoryPrefix}'`);
+        }
+        if (!Token.isUnresolved(this.maxImageCount) && (!Number.isInteger(this.maxImageCount) || this.maxImageCount < 1)) {
+            throw new Error(`imageMirror.maxImageCount must be an integer of at least 1, got ${this.maxImageCount}`);
+        }
+        const secretName = props.upstreamCredentials.secretName;
+        if (!Token.isUnresolved(secretName) && !secretName.startsWith('ecr-pullthroughcache/')) {
+            throw new Error(`imageMirror.upstreamCredentials must be named 'ecr-pullthroughcache/...', got '${secretName}'`);
+        }
+
+        new CfnPullThroughCacheRule(this, 'PullThroughCacheRule', {
+            ecrRepositoryPrefix: this.repositoryPrefix,
+            upstreamRegistry: 'github-container-registry',
+            upstreamRegistryUrl: 'ghcr.io',
+            credentialArn: props.upstreamCredentials.secretArn,
+        });
+    }
+
+    /**
+     * Repository mirroring `ghcr.io/<upstreamRepository>`. Created before the first pull, so it is
+     * scanned on push and has the lifecycle rule from the start.
+     */
+    public repository(upstreamRepository: string): Repository {
+        this.repositories[upstreamRepository] ??= new Repository(this, upstreamRepository.replace(/\//g, '-'), {
+            repositoryName: `${this.repositoryPrefix}/${upstreamRepository}`,
+            imageScanOnPush: true,
+            lifecycleRules: [{ description: 'Expire old images', maxImageCount: this.maxImageCount }],
+            // The images can be pulled again from upstream
+            removalPolicy: RemovalPolicy.DESTROY,
+            emptyOnDelete: true,
+        });
+        return this.repositories[upstreamRepository];
+    }
+
+    /** `ghcr.io/<upstreamRepository>@<digest>`, pulled from the mirror. */
+    public image(upstreamRepository: string, digest: string): ContainerImage {
+        return ContainerImage.fromEcrRepository(this.repository(upstreamRepository), digest);
+    }
+
+    /**
+     * Let the task execution role copy images the mirror does not have yet. Pulling itself is
+     * granted when the image is bound to a container.
+     */
+    public grantImport(grantee: IGrantable): Grant {
+        return Grant.addToPrincipal({
+            grantee,
+            actions: ['ecr:BatchImportUpstreamImage'],
+            resourceArns: Object.values(this.repositories).map((repository) => repository.repositoryArn),
+        });
+    }
+}
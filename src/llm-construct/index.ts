@@ -1,30 +1,485 @@
-import { RemovalPolicy, CfnOutput, Stack } from 'aws-cdk-lib';
+import * as path from 'path';
+import { Annotations, RemovalPolicy, CfnOutput, Duration, Stack, Token } from 'aws-cdk-lib';
 import { PhysicalResourceId } from 'aws-cdk-lib/custom-resources';
 import { Construct } from 'constructs';
-import { Vpc, Peer, Port, SecurityGroup, SubnetType } from 'aws-cdk-lib/aws-ec2';
-import { Cluster, FargateTaskDefinition, ContainerImage, LogDrivers, Secret as ECSSecret, FargateService } from 'aws-cdk-lib/aws-ecs';
-import { FileSystem, PerformanceMode } from 'aws-cdk-lib/aws-efs';
+import { ISecurityGroup, IVpc, Vpc, Peer, Port, SecurityGroup, SubnetSelection, SubnetType } from 'aws-cdk-lib/aws-ec2';
+import { AppProtocol, Cluster, ContainerInsights, ICluster, FargateTaskDefinition, ContainerImage, LogDrivers, Secret as ECSSecret, FargateService } from 'aws-cdk-lib/aws-ecs';
+import { AccessPoint, FileSystem, IFileSystem, LifecyclePolicy, OutOfInfrequentAccessPolicy, PerformanceMode } from 'aws-cdk-lib/aws-efs';
 import { AllowedMethods, CachePolicy, Distribution, OriginProtocolPolicy, OriginRequestPolicy, ViewerProtocolPolicy } from 'aws-cdk-lib/aws-cloudfront';
-import { LoadBalancerV2Origin } from 'aws-cdk-lib/aws-cloudfront-origins';
+import { HttpOrigin, LoadBalancerV2Origin } from 'aws-cdk-lib/aws-cloudfront-origins';
+import { Certificate, ICertificate } from 'aws-cdk-lib/aws-certificatemanager';
 import { AwsCustomResource, AwsCustomResourcePolicy } from 'aws-cdk-lib/custom-resources';
-import { Effect, PolicyStatement } from 'aws-cdk-lib/aws-iam';
-import { ApplicationLoadBalancer, ApplicationProtocol, ApplicationTargetGroup, TargetType } from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import { ApplicationListenerRule, ApplicationLoadBalancer, ApplicationProtocol, ApplicationTargetGroup, ListenerAction, ListenerCertificate, ListenerCondition, TargetType } from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import { IKey, Key } from 'aws-cdk-lib/aws-kms';
+import { LogGroup } from 'aws-cdk-lib/aws-logs';
 import { Secret } from 'aws-cdk-lib/aws-secretsmanager';
+import { HttpNamespace } from 'aws-cdk-lib/aws-servicediscovery';
+import { OpenWebUIVpcEndpoints } from './vpc-endpoints';
+import { OriginVerifyHeader } from './origin-verify';
+import { OpenWebUIDomain, OpenWebUIDomainProps } from './domain';
+import { BedrockAccessProps, bedrockEnvironment, bedrockPolicyStatements, DEFAULT_BEDROCK_REGIONS } from './bedrock-access';
+import { PipelineScriptsDeployment } from './pipeline-scripts';
+import { OpenWebUIAuthentication, OpenWebUIAuthenticationProps } from './authentication';
+import { PipelinesEndpointMode, PipelinesEndpointProps, PipelinesWebAcl } from './pipelines-endpoint';
+import { PIPELINES_SERVICE_CONNECT_NAME, PipelinesServiceProps } from './pipelines-service';
+import { configureAutoScaling, OpenWebUIAutoScalingProps } from './autoscaling';
+import { OpenWebUIDatabase, OpenWebUIDatabaseProps } from './database';
+import { EfsBackup, EfsBackupProps } from './efs-backup';
+import { OpenWebUIMonitoring, OpenWebUIMonitoringProps } from './monitoring';
+import { BedrockUsage, BedrockUsageProps } from './bedrock-usage';
+import { CloudFrontWafProps, CloudFrontWebAcl } from './cloudfront-waf';
+import { PipelinesApiKeyRotation } from './api-key-rotation';
+import { BedrockGuardrail, BedrockGuardrailProps } from './guardrail';
+import { OpenWebUIKnowledgeBase, OpenWebUIKnowledgeBaseProps } from './knowledge-base';
+import { OpenWebUIImageMirror, OpenWebUIImageMirrorProps } from './image-mirror';
+import { openWebUIEnvironment, openWebUISecrets, OpenWebUISettings, validateSettings } from './settings';
+import { encryptionKeyPolicy, logsKeyPolicyStatement, taskKeyPolicyStatement } from './encryption-key';
+
+export { OpenWebUIVpcEndpoints, OpenWebUIVpcEndpointsProps } from './vpc-endpoints';
+export { OriginVerifyHeader, ORIGIN_VERIFY_HEADER_NAME } from './origin-verify';
+export { OpenWebUIDomain, OpenWebUIDomainConstructProps, OpenWebUIDomainProps } from './domain';
+export { BedrockAccessProps, BedrockActionGroup, bedrockEnvironment, bedrockPolicyStatements, DEFAULT_BEDROCK_REGIONS } from './bedrock-access';
+export { PipelineScriptsDeployment, PipelineScriptsDeploymentProps } from './pipeline-scripts';
+export { OPEN_WEBUI_OIDC_CALLBACK_PATH, OpenWebUIAuthentication, OpenWebUIAuthenticationConstructProps, OpenWebUIAuthenticationProps } from './authentication';
+export { PipelinesEndpointMode, PipelinesEndpointProps, PipelinesWebAcl, PipelinesWebAclProps } from './pipelines-endpoint';
+export { PIPELINES_SERVICE_CONNECT_NAME, PipelinesServiceProps } from './pipelines-service';
+export { configureAutoScaling, OpenWebUIAutoScalingProps } from './autoscaling';
+export { OpenWebUIDatabase, OpenWebUIDatabaseConstructProps, OpenWebUIDatabaseProps } from './database';
+export { EfsBackup, EfsBackupConstructProps, EfsBackupProps } from './efs-backup';
+export { OpenWebUIAlarmThresholds, OpenWebUIMonitoring, OpenWebUIMonitoringConstructProps, OpenWebUIMonitoringProps } from './monitoring';
+export { BedrockBudgetProps, BedrockUsage, BedrockUsageConstructProps, BedrockUsageProps } from './bedrock-usage';
+export { CloudFrontWafProps, CloudFrontWebAcl } from './cloudfront-waf';
+export { PipelinesApiKeyRotation, PipelinesApiKeyRotationProps } from './api-key-rotation';
+export { BedrockGuardrail, BedrockGuardrailProps, GuardrailContentFilters, GuardrailDeniedTopic, GuardrailFilterStrength, GuardrailPiiAction } from './guardrail';
+export { KnowledgeBaseVectorStore, OpenWebUIKnowledgeBase, OpenWebUIKnowledgeBaseConstructProps, OpenWebUIKnowledgeBaseProps } from './knowledge-base';
+export { OpenWebUIImageMirror, OpenWebUIImageMirrorProps } from './image-mirror';
+export { openWebUIEnvironment, openWebUISecrets, OpenWebUISettings, OpenWebUIUserRole, RagEmbeddingEngine } from './settings';
+
+/**
+ * Valid Fargate memory sizes (MiB) for each supported CPU value.
+ * @see https://docs.aws.amazon.com/AmazonECS/latest/developerguide/fargate-tasks-services.html#fargate-tasks-size
+ */
+const FARGATE_MEMORY_BY_CPU: { [cpu: number]: { min: number; max: number; step: number } } = {
+    256: { min: 512, max: 2048, step: 512 },
+    512: { min: 1024, max: 4096, step: 1024 },
+    1024: { min: 2048, max: 8192, step: 1024 },
+    2048: { min: 4096, max: 16384, step: 1024 },
+    4096: { min: 8192, max: 30720, step: 1024 },
+    8192: { min: 16384, max: 61440, step: 4096 },
+    16384: { min: 32768, max: 122880, step: 8192 },
+};
+
+/**
+ * How the Fargate tasks are exposed to the network.
+ */
+export enum NetworkingMode {
+    /** Tasks run in public subnets with a public IP. */
+    PUBLIC = 'PUBLIC',
+    /** Tasks run in private subnets without a public IP and reach AWS services through VPC endpoints. */
+    PRIVATE = 'PRIVATE',
+}
+
+const IMAGE_TAG_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_.-]{0,127}$/;
+
+const IMAGE_DIGEST_PATTERN = /^sha256:[a-f0-9]{64}$/;
+
+export interface OpenWebUIEcsConstructProps {
+    /**
+     * CPU units for the Fargate task running Open WebUI, and pipelines unless `pipelinesService` is set.
+     * @default 4096
+     */
+    readonly cpu?: number;
+
+    /**
+     * Memory (MiB) for the Fargate task. Must be a valid size for `cpu`.
+     * @default 8192
+     */
+    readonly memoryLimitMiB?: number;
+
+    /**
+     * Tag of the `ghcr.io/open-webui/open-webui` image.
+     * @default 'main'
+     */
+    readonly openWebUIImageTag?: string;
+
+    /**
+     * Tag of the `ghcr.io/open-webui/pipelines` image.
+     * @default 'main'
+     */
+    readonly pipelinesImageTag?: string;
+
+    /**
+     * Digest (`sha256:...`) of the Open WebUI image. Tasks then always run that build and
+     * `openWebUIImageTag` is ignored.
+     * @default - whatever the tag points to when a task starts
+     */
+    readonly openWebUIImageDigest?: string;
+
+    /**
+     * Digest (`sha256:...`) of the pipelines image. Tasks then always run that build and
+     * `pipelinesImageTag` is ignored.
+     * @default - whatever the tag points to when a task starts
+     */
+    readonly pipelinesImageDigest?: string;
+
+    /**
+     * Pull the images through ECR repositories the construct owns, which mirror ghcr.io, scan images
+     * on push and expire old ones. Requires `openWebUIImageDigest` and `pipelinesImageDigest`.
+     * @default - images are pulled from ghcr.io
+     */
+    readonly imageMirror?: OpenWebUIImageMirrorProps;
+
+    /**
+     * Open WebUI settings such as sign-up, the default user role, default models and the RAG embedding
+     * engine, passed to the container as environment variables and secrets.
+     * @default - Open WebUI's defaults
+     */
+    readonly settings?: OpenWebUISettings;
+
+    /**
+     * Maximum number of availability zones for the VPC. The ALB needs at least two.
+     * @default 2
+     */
+    readonly maxAzs?: number;
+
+    /**
+     * Number of tasks the Fargate service keeps running, or the autoscaling minimum when `autoScaling` is set.
+     * @default 1
+     */
+    readonly desiredCount?: number;
+
+    /**
+     * Removal policy of the EFS file system holding chat history and pipelines.
+     * EFS does not support `RemovalPolicy.SNAPSHOT`; recovery points come from the backup plan.
+     * @default RemovalPolicy.RETAIN
+     */
+    readonly efsRemovalPolicy?: RemovalPolicy;
+
+    /**
+     * Move files that have not been accessed for this long to EFS Infrequent Access.
+     * @default LifecyclePolicy.AFTER_30_DAYS
+     */
+    readonly efsTransitionToIa?: LifecyclePolicy;
+
+    /**
+     * Back up the EFS file system with an AWS Backup plan.
+     * @default true
+     */
+    readonly enableEfsBackup?: boolean;
+
+    /**
+     * Retention and vault of the EFS backup plan.
+     * @default - daily recovery points kept for 35 days, weekly ones for a year
+     */
+    readonly efsBackup?: EfsBackupProps;
+
+    /**
+     * ID of an existing EFS file system to use instead of creating one, e.g. one restored from a
+     * recovery point or retained by a deleted stack. Requires `efsSecurityGroup`.
+     * @default - a new file system is created
+     */
+    readonly efsFileSystemId?: string;
+
+    /**
+     * Security group of the mount targets of `efsFileSystemId`.
+     * @default - none
+     */
+    readonly efsSecurityGroup?: ISecurityGroup;
+
+    /**
+     * Existing VPC to deploy into. When set, no VPC resources are created and `maxAzs` is ignored.
+     * @default - the cluster's VPC if `cluster` is set, otherwise a new VPC
+     */
+    readonly vpc?: IVpc;
+
+    /**
+     * Existing ECS cluster to run the service in. Must belong to `vpc` when both are set.
+     * @default - a new cluster in the VPC
+     */
+    readonly cluster?: ICluster;
+
+    /**
+     * Whether tasks run in public subnets or in private subnets behind VPC endpoints.
+     * @default NetworkingMode.PUBLIC
+     */
+    readonly networking?: NetworkingMode;
+
+    /**
+     * Create interface endpoints for Bedrock, Secrets Manager, ECR, CloudWatch Logs and STS plus an
+     * S3 gateway endpoint. Only used with `NetworkingMode.PRIVATE`; turn off when the VPC already has them.
+     * @default true
+     */
+    readonly createVpcEndpoints?: boolean;
+
+    /**
+     * Subnets the Fargate tasks run in. Tasks get a public IP only when the selection contains public subnets.
+     * With `NetworkingMode.PRIVATE` the selection must not contain public subnets; isolated subnets
+     * additionally need images that can be pulled from ECR.
+     * @default - public subnets, or private subnets with egress for `NetworkingMode.PRIVATE`
+     */
+    readonly taskSubnets?: SubnetSelection;
+
+    /**
+     * Subnets the load balancers are placed in.
+     * @default - public subnets for internet-facing load balancers
+     */
+    readonly loadBalancerSubnets?: SubnetSelection;
+
+    /**
+     * Rotate the secret CloudFront origin header on this schedule.
+     * @default - the header value is generated once and not rotated automatically
+     */
+    readonly originVerifyRotation?: Duration;
+
+    /**
+     * Rotate the pipelines API key on this schedule. Every rotation redeploys the services using the key.
+     * @default - the key is generated once and not rotated automatically
+     */
+    readonly apiKeyRotation?: Duration;
+
+    /**
+     * ACM certificate for the load balancers, in the stack's region.
+     * @default - looked up from the `acm-arn:account=<account>:region=<region>` context key
+     */
+    readonly certificate?: ICertificate;
+
+    /**
+     * DNS name that resolves to the Open WebUI ALB and is covered by `certificate`. CloudFront
+     * verifies the origin certificate against this name, so HTTPS between CloudFront and the ALB
+     * is only used when both are set.
+     * @default - CloudFront reaches the ALB over HTTP
+     */
+    readonly originDomainName?: string;
+
+    /**
+     * Serve Open WebUI and pipelines on custom domain names. Certificates are created (including a
+     * us-east-1 certificate for CloudFront) and Route 53 alias records point at the distribution and ALBs.
+     * @default - Open WebUI is only reachable on the `*.cloudfront.net` domain
+     */
+    readonly domain?: OpenWebUIDomainProps;
+
+    /**
+     * Bedrock models and actions the task role is allowed to use.
+     * @default - invoke and list on every foundation model in us-east-1 and us-west-2
+     */
+    readonly bedrock?: BedrockAccessProps;
+
+    /**
+     * Create a Bedrock guardrail the pipelines container must apply to every model invocation.
+     * Guardrails are regional, so `bedrock.regions` may only contain the stack's region.
+     * @default - no guardrail
+     */
+    readonly guardrail?: BedrockGuardrailProps;
+
+    /**
+     * Create a Bedrock knowledge base over an S3 documents bucket that pipelines can query.
+     * @default - no knowledge base
+     */
+    readonly knowledgeBase?: OpenWebUIKnowledgeBaseProps;
+
+    /**
+     * Local directory of pipeline scripts copied to `/pipelines` on the EFS file system on every deploy.
+     * @default - the repository's `pipeline_scripts/` directory
+     */
+    readonly pipelineScriptsPath?: string;
+
+    /**
+     * Whether to deploy `pipelineScriptsPath` onto the pipelines volume.
+     * @default true
+     */
+    readonly deployPipelineScripts?: boolean;
+
+    /**
+     * Subnets of the function copying the pipeline scripts onto EFS. It needs to reach S3 and
+     * CloudFormation, through NAT or VPC endpoints, so public subnets cannot be used.
+     * @default - `taskSubnets` with `NetworkingMode.PRIVATE`, otherwise private subnets with egress
+     */
+    readonly pipelineScriptsSubnets?: SubnetSelection;
+
+    /**
+     * Require users to sign in through Cognito or an external OIDC identity provider before they reach
+     * Open WebUI. The ALB enforces the sign-in, and Open WebUI signs users in by email through its own
+     * OIDC client against the same provider. Requires `domain`.
+     * @default - no authentication in front of Open WebUI
+     */
+    readonly authentication?: OpenWebUIAuthenticationProps;
+
+    /**
+     * How the pipelines API is exposed outside the task. The internet-facing endpoint open to any
+     * address is only created with `PipelinesEndpointMode.PUBLIC`.
+     * @default - no external pipelines endpoint
+     */
+    readonly pipelinesEndpoint?: PipelinesEndpointProps;
+
+    /**
+     * Run pipelines as a separate Fargate service with its own task size, scaling and deployment settings.
+     * Open WebUI reaches it through ECS Service Connect, so a failing pipeline cannot take down the chat UI.
+     * @default - pipelines runs as a second container in the Open WebUI task
+     */
+    readonly pipelinesService?: PipelinesServiceProps;
+
+    /**
+     * Scale the Open WebUI service between a minimum and maximum number of tasks on CPU, memory,
+     * ALB requests per task and schedules. With more than one task the ALB uses sticky sessions and
+     * all tasks share a generated `WEBUI_SECRET_KEY`.
+     * @default - a fixed number of tasks
+     */
+    readonly autoScaling?: OpenWebUIAutoScalingProps;
+
+    /**
+     * Store Open WebUI's state in an Aurora Serverless v2 PostgreSQL cluster instead of SQLite on EFS.
+     * Uploads and the vector store stay on EFS.
+     * @default - SQLite on the Open WebUI EFS volume
+     */
+    readonly database?: OpenWebUIDatabaseProps;
+
+    /**
+     * Create a CloudWatch dashboard for ECS, the ALB, CloudFront and EFS, and alarms that publish to an SNS topic.
+     * Container Insights is turned on for a cluster the construct creates.
+     * @default - no dashboard or alarms
+     */
+    readonly monitoring?: OpenWebUIMonitoringProps;
+
+    /**
+     * Turn on Bedrock model invocation logging for the stack's region, build a usage dashboard per
+     * model ID and optionally alert on Bedrock spend with AWS Budgets.
+     * @default - no invocation logging, usage dashboard or budget
+     */
+    readonly bedrockUsage?: BedrockUsageProps;
+
+    /**
+     * Create a WAF web ACL for the CloudFront distribution. CloudFront web ACLs live in us-east-1, so this
+     * is only possible for stacks in us-east-1; elsewhere create a `CloudFrontWebAcl` in a us-east-1 stack
+     * and pass its ARN as `cloudFrontWebAclArn`.
+     * @default - no WAF
+     */
+    readonly cloudFrontWaf?: CloudFrontWafProps;
+
+    /**
+     * ARN of an existing CLOUDFRONT-scoped web ACL to attach to the distribution.
+     * @default - no WAF unless `cloudFrontWaf` is set
+     */
+    readonly cloudFrontWebAclArn?: string;
+
+    /**
+     * Customer managed key for the EFS file system, every Secrets Manager secret, the database, backups
+     * and the log groups the construct creates. The construct allows CloudWatch Logs to use it.
+     * @default - a key is created when `createKmsKey` is set, otherwise AWS managed keys are used
+     */
+    readonly kmsKey?: IKey;
+
+    /**
+     * Create a customer managed key with automatic rotation when `kmsKey` is not set. Its key policy
+     * only lets the account administer it and use it through the services the construct encrypts with.
+     * @default false
+     */
+    readonly createKmsKey?: boolean;
+}
 
 export class OpenWebUIEcsConstruct extends Construct {
-    constructor(scope: Construct, id: string) {
+    /** The VPC the construct's resources run in. */
+    public readonly vpc: IVpc;
+
+    /** The ECS cluster running the Open WebUI service. */
+    public readonly cluster: ICluster;
+
+    constructor(scope: Construct, id: string, props: OpenWebUIEcsConstructProps = {}) {
         super(scope, id);
 
+        const cpu = props.cpu ?? 4096;
+        const memoryLimitMiB = props.memoryLimitMiB ?? 8192;
+        const openWebUIImageTag = props.openWebUIImageTag ?? 'main';
+        const pipelinesImageTag = props.pipelinesImageTag ?? 'main';
+        const maxAzs = props.maxAzs ?? 2;
+        const desiredCount = props.desiredCount ?? 1;
+        validateTaskSize(cpu, memoryLimitMiB);
+        validateImageTag('openWebUIImageTag', openWebUIImageTag);
+        validateImageTag('pipelinesImageTag', pipelinesImageTag);
+        validateImageDigest('openWebUIImageDigest', props.openWebUIImageDigest);
+        validateImageDigest('pipelinesImageDigest', props.pipelinesImageDigest);
+        if (props.imageMirror && !(props.openWebUIImageDigest && props.pipelinesImageDigest)) {
+            throw new Error('imageMirror requires openWebUIImageDigest and pipelinesImageDigest');
+        }
+        validateInteger('maxAzs', maxAzs, 2);
+        validateInteger('desiredCount', desiredCount, 0);
+        if (props.autoScaling) {
+            validateInteger('autoScaling.minCapacity', props.autoScaling.minCapacity ?? desiredCount, 0);
+            validateInteger('autoScaling.maxCapacity', props.autoScaling.maxCapacity, 1);
+        }
+        const multipleTasks = desiredCount > 1 || (props.autoScaling?.maxCapacity ?? 0) > 1;
+        const pipelinesServiceProps = props.pipelinesService;
+        if (pipelinesServiceProps) {
+            validateTaskSize(pipelinesServiceProps.cpu ?? 1024, pipelinesServiceProps.memoryLimitMiB ?? 2048, 'pipelinesService.');
+            validateInteger('pipelinesService.desiredCount', pipelinesServiceProps.desiredCount ?? 1, 0);
+        }
+
         // At the top of your constructor, get the account and region. You might get them via Stack props or from environment variables.
         const accountId = Stack.of(this).account;
         const region = Stack.of(this).region;
         const acmContextKey = `acm-arn:account=${accountId}:region=${region}`;
         const acmArn = this.node.tryGetContext(acmContextKey);
+        if (props.cloudFrontWaf && props.cloudFrontWebAclArn) {
+            throw new Error('Set either cloudFrontWaf or cloudFrontWebAclArn, not both');
+        }
+        if (props.cloudFrontWaf && !Token.isUnresolved(region) && region !== 'us-east-1') {
+            throw new Error(`cloudFrontWaf needs a stack in us-east-1, got ${region}; create a CloudFrontWebAcl in a us-east-1 stack and pass cloudFrontWebAclArn`);
+        }
+        if (props.guardrail && !Token.isUnresolved(region)
+            && (props.bedrock?.regions ?? DEFAULT_BEDROCK_REGIONS).some((bedrockRegion) => bedrockRegion !== region)) {
+            throw new Error(`guardrail only applies in ${region}; set bedrock.regions to ['${region}']`);
+        }
+        if (props.authentication && !props.domain) {
+            throw new Error('authentication requires domain: ALB authentication needs HTTPS on the domain users sign in on');
+        }
+        // ALB authentication redirects and sets cookies for the Host the ALB sees, so it must be the viewer's
+        const forwardHostHeader = props.authentication !== undefined;
+        const domain = props.domain
+            ? new OpenWebUIDomain(this, 'Domain', {
+                ...props.domain,
+                originDomainName: props.domain.originDomainName ?? props.originDomainName,
+                loadBalancerCertificate: props.certificate,
+                forwardHostHeader,
+            })
+            : undefined;
+        const certificate = props.certificate
+            ?? domain?.loadBalancerCertificate
+            ?? (acmArn ? Certificate.fromCertificateArn(this, 'AcmCertificate', acmArn) : undefined);
+        const originDomainName = domain?.originDomainName ?? props.originDomainName;
+        const httpsOrigin = certificate !== undefined && originDomainName !== undefined;
+        if (certificate && !originDomainName) {
+            Annotations.of(this).addWarning('A certificate is available but originDomainName is not set, so CloudFront reaches the Open WebUI ALB over HTTP');
+        }
 
-        
+        // Encryption
+        // Services that use the key on behalf of the account; CloudWatch Logs has a statement of its own
+        const keyServices = [
+            'elasticfilesystem',
+            'secretsmanager',
+            ...(props.enableEfsBackup ?? true ? ['backup'] : []),
+            ...(props.database || props.knowledgeBase ? ['rds'] : []),
+            ...(props.knowledgeBase ? ['s3', 'aoss'] : []),
+        ];
+        const kmsKey = props.kmsKey ?? (props.createKmsKey
+            ? new Key(this, 'EncryptionKey', {
+                description: 'Encrypts Open WebUI data, secrets and logs',
+                enableKeyRotation: true,
+                removalPolicy: RemovalPolicy.RETAIN,
+                policy: encryptionKeyPolicy(Stack.of(this), keyServices),
+            })
+            : undefined);
+        props.kmsKey?.addToResourcePolicy(logsKeyPolicyStatement(Stack.of(this)));
+
+        const authentication = props.authentication && domain
+            ? new OpenWebUIAuthentication(this, 'Authentication', {
+                ...props.authentication,
+                domainName: domain.domainName,
+                encryptionKey: kmsKey,
+            })
+            : undefined;
 
         // API Key Secret
         const apiKeySecret = new Secret(this, 'APIKeySecret', {
+            encryptionKey: kmsKey,
             generateSecretString: {
                 secretStringTemplate: JSON.stringify({
                     "apiKey": "REPLACE_ME"
@@ -35,42 +490,131 @@ export class OpenWebUIEcsConstruct extends Construct {
             },
         });
 
-        // VPC and Cluster
-        const vpc = new Vpc(this, 'OpenWebUIVpc', { maxAzs: 2 });
-        const cluster = new Cluster(this, 'OpenWebUICluster', { vpc });
+        // Sessions are signed with WEBUI_SECRET_KEY, which every task must share and which has to
+        // outlive the task, or users are signed out on every restart
+        const webUISecretKey = new Secret(this, 'WebUISecretKey', {
+            encryptionKey: kmsKey,
+            generateSecretString: { excludePunctuation: true, includeSpace: false, passwordLength: 64 },
+        });
+        if (multipleTasks && !props.database) {
+            Annotations.of(this).addWarning('Open WebUI keeps its SQLite database on EFS; more than one task writing to it can cause lock contention; consider setting database');
+        }
 
-        // EFS Setup
-        const fileSystem = new FileSystem(this, 'EfsFileSystem', {
+        // VPC and Cluster
+        if (props.vpc && props.cluster && !Token.isUnresolved(props.vpc.vpcId) && !Token.isUnresolved(props.cluster.vpc.vpcId)
+            && props.vpc.vpcId !== props.cluster.vpc.vpcId) {
+            throw new Error(`cluster must belong to vpc: the cluster is in ${props.cluster.vpc.vpcId}, not ${props.vpc.vpcId}`);
+        }
+        const vpc = props.vpc ?? props.cluster?.vpc ?? new Vpc(this, 'OpenWebUIVpc', { maxAzs });
+        const cluster = props.cluster ?? new Cluster(this, 'OpenWebUICluster', {
             vpc,
-            removalPolicy: RemovalPolicy.DESTROY,
-            performanceMode: PerformanceMode.GENERAL_PURPOSE,
+            containerInsightsV2: props.monitoring ? ContainerInsights.ENABLED : undefined,
         });
+        this.vpc = vpc;
+        this.cluster = cluster;
+        const privateNetworking = props.networking === NetworkingMode.PRIVATE;
+        const taskSubnets = props.taskSubnets
+            ?? { subnetType: privateNetworking ? SubnetType.PRIVATE_WITH_EGRESS : SubnetType.PUBLIC };
+        const assignPublicIp = vpc.selectSubnets(taskSubnets).hasPublic;
+        if (privateNetworking && assignPublicIp) {
+            throw new Error('taskSubnets must not contain public subnets when networking is NetworkingMode.PRIVATE');
+        }
 
-        fileSystem.connections.allowDefaultPortFrom(Peer.ipv4(vpc.vpcCidrBlock));
+        // Database
+        const database = props.database
+            ? new OpenWebUIDatabase(this, 'Database', { ...props.database, vpc, encryptionKey: kmsKey })
+            : undefined;
 
-        const openWebUIAccessPoint = fileSystem.addAccessPoint('OpenWebUIAccessPoint', {
+        // EFS Setup
+        if (props.efsFileSystemId && !props.efsSecurityGroup) {
+            throw new Error('efsFileSystemId requires efsSecurityGroup');
+        }
+        const fileSystem: IFileSystem = props.efsFileSystemId
+            ? FileSystem.fromFileSystemAttributes(this, 'EfsFileSystem', {
+                fileSystemId: props.efsFileSystemId,
+                securityGroup: props.efsSecurityGroup!,
+            })
+            : new FileSystem(this, 'EfsFileSystem', {
+                vpc,
+                encrypted: true,
+                kmsKey,
+                removalPolicy: props.efsRemovalPolicy ?? RemovalPolicy.RETAIN,
+                performanceMode: PerformanceMode.GENERAL_PURPOSE,
+                lifecyclePolicy: props.efsTransitionToIa ?? LifecyclePolicy.AFTER_30_DAYS,
+                outOfInfrequentAccessPolicy: OutOfInfrequentAccessPolicy.AFTER_1_ACCESS,
+            });
+        if (props.enableEfsBackup ?? true) {
+            new EfsBackup(this, 'EfsBackup', { ...props.efsBackup, fileSystem, encryptionKey: kmsKey });
+        }
+
+        if (!privateNetworking) {
+            fileSystem.connections.allowDefaultPortFrom(Peer.ipv4(vpc.vpcCidrBlock));
+        }
+
+        const openWebUIAccessPoint = new AccessPoint(fileSystem, 'OpenWebUIAccessPoint', {
+            fileSystem,
             path: '/openwebui',
             createAcl: { ownerUid: '1000', ownerGid: '1000', permissions: '750' },
             posixUser: { uid: '1000', gid: '1000' },
         });
 
-        const pipelinesAccessPoint = fileSystem.addAccessPoint('PipelinesAccessPoint', {
+        const pipelinesAccessPoint = new AccessPoint(fileSystem, 'PipelinesAccessPoint', {
+            fileSystem,
             path: '/pipelines',
             createAcl: { ownerUid: '1000', ownerGid: '1000', permissions: '750' },
             posixUser: { uid: '1000', gid: '1000' },
         });
 
+        // Pipeline scripts are synced onto the pipelines volume before the service starts
+        const deployPipelineScripts = props.deployPipelineScripts ?? true;
+        const pipelineScriptsSubnets = props.pipelineScriptsSubnets
+            ?? (privateNetworking ? taskSubnets : { subnetType: SubnetType.PRIVATE_WITH_EGRESS });
+        if (deployPipelineScripts && !props.pipelineScriptsSubnets && !privateNetworking && vpc.privateSubnets.length === 0) {
+            throw new Error('The VPC has no private subnets with egress for the pipeline scripts deployment; '
+                + 'set pipelineScriptsSubnets to subnets that reach S3 and CloudFormation, or set deployPipelineScripts to false');
+        }
+        if (deployPipelineScripts && vpc.selectSubnets(pipelineScriptsSubnets).hasPublic) {
+            throw new Error('pipelineScriptsSubnets must not contain public subnets: Lambda functions get no public IP');
+        }
+        const pipelineScripts = deployPipelineScripts
+            ? new PipelineScriptsDeployment(this, 'PipelineScripts', {
+                path: props.pipelineScriptsPath ?? path.join(__dirname, '..', '..', 'pipeline_scripts'),
+                accessPoint: pipelinesAccessPoint,
+                vpc,
+                subnets: pipelineScriptsSubnets,
+            })
+            : undefined;
+
         // Task Definition
         const taskDefinition = new FargateTaskDefinition(this, 'OpenWebUITaskDef', {
-            cpu: 4096,
-            memoryLimitMiB: 8192,
+            cpu,
+            memoryLimitMiB,
         });
 
-        taskDefinition.addToTaskRolePolicy(new PolicyStatement({
-            effect: Effect.ALLOW,
-            actions: ['bedrock:*'],
-            resources: ['*'],
-        }));
+        // Pipelines get their own task definition when they run as a separate service
+        const pipelinesTaskDefinition = pipelinesServiceProps
+            ? new FargateTaskDefinition(this, 'PipelinesTaskDef', {
+                cpu: pipelinesServiceProps.cpu ?? 1024,
+                memoryLimitMiB: pipelinesServiceProps.memoryLimitMiB ?? 2048,
+            })
+            : taskDefinition;
+
+        // Bedrock is called by the pipelines container
+        const guardrail = props.guardrail ? new BedrockGuardrail(this, 'Guardrail', props.guardrail) : undefined;
+        for (const statement of bedrockPolicyStatements(Stack.of(this), props.bedrock, guardrail)) {
+            pipelinesTaskDefinition.addToTaskRolePolicy(statement);
+        }
+        const knowledgeBase = props.knowledgeBase
+            ? new OpenWebUIKnowledgeBase(this, 'KnowledgeBase', { ...props.knowledgeBase, vpc, encryptionKey: kmsKey })
+            : undefined;
+        knowledgeBase?.grantRetrieve(pipelinesTaskDefinition.taskRole);
+        if (props.bedrockUsage) {
+            new BedrockUsage(this, 'BedrockUsage', {
+                ...props.bedrockUsage,
+                encryptionKey: kmsKey,
+                regions: props.bedrock?.regions ?? DEFAULT_BEDROCK_REGIONS,
+            });
+        }
 
         taskDefinition.addVolume({
             name: 'openwebuiVolume',
@@ -81,7 +625,7 @@ export class OpenWebUIEcsConstruct extends Construct {
             },
         });
 
-        taskDefinition.addVolume({
+        pipelinesTaskDefinition.addVolume({
             name: 'pipelinesVolume',
             efsVolumeConfiguration: {
                 fileSystemId: fileSystem.fileSystemId,
@@ -90,17 +634,45 @@ export class OpenWebUIEcsConstruct extends Construct {
             },
         });
 
+        // Images
+        const imageMirror = props.imageMirror ? new OpenWebUIImageMirror(this, 'ImageMirror', props.imageMirror) : undefined;
+        const image = (repository: string, tag: string, digest?: string) => {
+            if (imageMirror) {
+                return imageMirror.image(repository, digest!);
+            }
+            return ContainerImage.fromRegistry(digest ? `ghcr.io/${repository}@${digest}` : `ghcr.io/${repository}:${tag}`);
+        };
+
         // Containers
+        const openWebUIEnvironmentVariables = {
+            DATA_DIR: '/app/backend/data',
+            PIPELINES_SERVICE_URL: pipelinesServiceProps
+                ? `http://${PIPELINES_SERVICE_CONNECT_NAME}:9099`
+                : 'http://localhost:9099',
+            ...authentication?.environment,
+        };
+        const openWebUIContainerSecrets = {
+            PIPELINES_API_KEY: ECSSecret.fromSecretsManager(apiKeySecret, 'apiKey'),
+            WEBUI_SECRET_KEY: ECSSecret.fromSecretsManager(webUISecretKey),
+            ...authentication?.secrets,
+            ...database?.secrets,
+        };
+        if (props.settings) {
+            validateSettings(props.settings, [
+                ...Object.keys(openWebUIEnvironmentVariables),
+                ...Object.keys(openWebUIContainerSecrets),
+                ...(database ? ['DATABASE_URL'] : []),
+            ]);
+        }
         const openWebUIContainer = taskDefinition.addContainer('openwebui', {
-            image: ContainerImage.fromRegistry('ghcr.io/open-webui/open-webui:main'),
-            logging: LogDrivers.awsLogs({ streamPrefix: 'openwebui' }),
-            environment: {
-                DATA_DIR: '/app/backend/data',
-                PIPELINES_SERVICE_URL: 'http://localhost:9099',
-            },
-            secrets: {
-                PIPELINES_API_KEY: ECSSecret.fromSecretsManager(apiKeySecret, 'apiKey'),
-            },
+            image: image('open-webui/open-webui', openWebUIImageTag, props.openWebUIImageDigest),
+            logging: LogDrivers.awsLogs({
+                streamPrefix: 'openwebui',
+                logGroup: kmsKey ? new LogGroup(this, 'OpenWebUILogGroup', { encryptionKey: kmsKey }) : undefined,
+            }),
+            environment: { ...openWebUIEnvironment(props.settings), ...openWebUIEnvironmentVariables },
+            secrets: { ...openWebUISecrets(props.settings), ...openWebUIContainerSecrets },
+            command: database?.command,
             essential: true,
         });
         openWebUIContainer.addPortMappings({ containerPort: 8080 });
@@ -110,20 +682,43 @@ export class OpenWebUIEcsConstruct extends Construct {
             readOnly: false,
         });
 
-        const pipelinesContainer = taskDefinition.addContainer('pipelines', {
-            image: ContainerImage.fromRegistry('ghcr.io/open-webui/pipelines:main'),
-            logging: LogDrivers.awsLogs({ streamPrefix: 'pipelines' }),
+        const pipelinesContainer = pipelinesTaskDefinition.addContainer('pipelines', {
+            image: image('open-webui/pipelines', pipelinesImageTag, props.pipelinesImageDigest),
+            logging: LogDrivers.awsLogs({
+                streamPrefix: 'pipelines',
+                logGroup: kmsKey ? new LogGroup(this, 'PipelinesLogGroup', { encryptionKey: kmsKey }) : undefined,
+            }),
+            environment: {
+                ...bedrockEnvironment(props.bedrock),
+                ...(guardrail ? { BEDROCK_GUARDRAIL_ID: guardrail.guardrailId, BEDROCK_GUARDRAIL_VERSION: guardrail.version } : {}),
+                ...knowledgeBase?.environment,
+                // A changed hash creates a new task definition revision, so tasks restart with the new scripts
+                ...(pipelineScripts ? { PIPELINE_SCRIPTS_HASH: pipelineScripts.assetHash } : {}),
+            },
             secrets: {
                 PIPELINES_API_KEY: ECSSecret.fromSecretsManager(apiKeySecret, 'apiKey'),
             },
             essential: true
         });
-        pipelinesContainer.addPortMappings({ containerPort: 9099 });
+        pipelinesContainer.addPortMappings(pipelinesServiceProps
+            ? { containerPort: 9099, name: PIPELINES_SERVICE_CONNECT_NAME, appProtocol: AppProtocol.http }
+            : { containerPort: 9099 });
         pipelinesContainer.addMountPoints({
             containerPath: '/app/pipelines',
             sourceVolume: 'pipelinesVolume',
             readOnly: false,
         });
+        if (imageMirror) {
+            imageMirror.grantImport(taskDefinition.obtainExecutionRole());
+            if (pipelinesTaskDefinition !== taskDefinition) {
+                imageMirror.grantImport(pipelinesTaskDefinition.obtainExecutionRole());
+            }
+        }
+        if (kmsKey) {
+            const taskDefinitions = pipelinesTaskDefinition === taskDefinition ? [taskDefinition] : [taskDefinition, pipelinesTaskDefinition];
+            kmsKey.addToResourcePolicy(taskKeyPolicyStatement(Stack.of(this),
+                taskDefinitions.flatMap((definition) => [definition.taskRole, definition.obtainExecutionRole()])));
+        }
 
         // CloudFront Prefix List Lookup
         const cfPrefixListResource = new AwsCustomResource(this, 'CfPrefixListLookup', {
@@ -148,33 +743,131 @@ export class OpenWebUIEcsConstruct extends Construct {
         const cfPrefixListId = cfPrefixListResource.getResponseField('PrefixLists.0.PrefixListId');
 
         // Security Groups
-        const serviceSG = new SecurityGroup(this, 'ServiceSG', { vpc });
-        const openWebUIAlbSG = new SecurityGroup(this, 'OpenWebUIAlbSG', { vpc });
+        const serviceSG = new SecurityGroup(this, 'ServiceSG', { vpc, allowAllOutbound: !privateNetworking });
+        const openWebUIAlbSG = new SecurityGroup(this, 'OpenWebUIAlbSG', { vpc, allowAllOutbound: !privateNetworking });
+        let vpcEndpoints: OpenWebUIVpcEndpoints | undefined;
+        if (privateNetworking) {
+            // Only HTTPS (VPC endpoints, S3 gateway, image registries via NAT) and NFS leave the task
+            serviceSG.addEgressRule(Peer.anyIpv4(), Port.tcp(443));
+            fileSystem.connections.allowDefaultPortFrom(serviceSG);
+            if (props.createVpcEndpoints ?? true) {
+                vpcEndpoints = new OpenWebUIVpcEndpoints(this, 'VpcEndpoints', {
+                    vpc,
+                    subnets: taskSubnets,
+                    bedrockRegions: props.bedrock?.regions ?? DEFAULT_BEDROCK_REGIONS,
+                });
+                vpcEndpoints.allowFrom(serviceSG);
+            }
+        }
+        database?.allowFrom(serviceSG);
         // Allow ALB to access service
         serviceSG.connections.allowFrom(openWebUIAlbSG, Port.tcp(8080));        
         // Allow CloudFront to access ALBs
         openWebUIAlbSG.addIngressRule(Peer.prefixList(cfPrefixListId), Port.tcp(80));
+        if (httpsOrigin) {
+            openWebUIAlbSG.addIngressRule(Peer.prefixList(cfPrefixListId), Port.tcp(443));
+        }
 
 
-        // Fargate Service
+        // Fargate Services
+        const serviceNamespace = pipelinesServiceProps
+            ? new HttpNamespace(this, 'ServiceNamespace', { name: pipelinesServiceProps.namespaceName ?? 'openwebui.internal' })
+            : undefined;
         const fargateService = new FargateService(this, 'OpenWebUIService', {
             cluster,
             taskDefinition,
             securityGroups: [serviceSG],
-            vpcSubnets: { subnetType: SubnetType.PUBLIC },
-            assignPublicIp: true,
-            desiredCount: 1,
+            vpcSubnets: taskSubnets,
+            assignPublicIp,
+            desiredCount,
             minHealthyPercent: 50,
+            // Client-only Service Connect: Open WebUI resolves the pipelines alias but registers nothing
+            serviceConnectConfiguration: serviceNamespace ? { namespace: serviceNamespace.namespaceArn } : undefined,
         });
+
+        let pipelinesService = fargateService;
+        if (pipelinesServiceProps && serviceNamespace) {
+            const pipelinesServiceSG = new SecurityGroup(this, 'PipelinesServiceSG', { vpc, allowAllOutbound: !privateNetworking });
+            if (privateNetworking) {
+                pipelinesServiceSG.addEgressRule(Peer.anyIpv4(), Port.tcp(443));
+                fileSystem.connections.allowDefaultPortFrom(pipelinesServiceSG);
+                vpcEndpoints?.allowFrom(pipelinesServiceSG);
+            }
+            pipelinesServiceSG.connections.allowFrom(serviceSG, Port.tcp(9099));
+            const pipelinesDesiredCount = pipelinesServiceProps.desiredCount ?? 1;
+            pipelinesService = new FargateService(this, 'PipelinesService', {
+                cluster,
+                taskDefinition: pipelinesTaskDefinition,
+                securityGroups: [pipelinesServiceSG],
+                vpcSubnets: taskSubnets,
+                assignPublicIp,
+                desiredCount: pipelinesDesiredCount,
+                minHealthyPercent: pipelinesServiceProps.minHealthyPercent ?? 100,
+                maxHealthyPercent: pipelinesServiceProps.maxHealthyPercent ?? 200,
+                circuitBreaker: { rollback: pipelinesServiceProps.circuitBreakerRollback ?? true },
+                serviceConnectConfiguration: {
+                    namespace: serviceNamespace.namespaceArn,
+                    services: [{ portMappingName: PIPELINES_SERVICE_CONNECT_NAME, dnsName: PIPELINES_SERVICE_CONNECT_NAME, port: 9099 }],
+                },
+            });
+            // The pipelines endpoint must be registered before Open WebUI starts resolving it
+            fargateService.node.addDependency(pipelinesService);
+            if (pipelinesServiceProps.maxCapacity !== undefined) {
+                pipelinesService.autoScaleTaskCount({
+                    minCapacity: pipelinesDesiredCount,
+                    maxCapacity: pipelinesServiceProps.maxCapacity,
+                }).scaleOnCpuUtilization('CpuScaling', {
+                    targetUtilizationPercent: pipelinesServiceProps.targetCpuUtilizationPercent ?? 70,
+                });
+            }
+        }
+        if (pipelineScripts) {
+            pipelinesService.node.addDependency(pipelineScripts);
+        }
         
-        if (acmArn) {
-            const pipelinesAlbSG = new SecurityGroup(this, 'PipelinesAlbSG', { vpc });
-            pipelinesAlbSG.addIngressRule(Peer.anyIpv4(), Port.tcp(443));
-            const pipelinesAlb = new ApplicationLoadBalancer(this, 'PipelinesAlb', {
+        // Pipelines Endpoint
+        const pipelinesEndpointMode = props.pipelinesEndpoint?.mode ?? PipelinesEndpointMode.NONE;
+        const allowedCidrs = props.pipelinesEndpoint?.allowedCidrs ?? [];
+        const allowedSecurityGroups = props.pipelinesEndpoint?.allowedSecurityGroups ?? [];
+        if (pipelinesEndpointMode !== PipelinesEndpointMode.NONE && !certificate) {
+            throw new Error(`pipelinesEndpoint mode ${pipelinesEndpointMode} requires a certificate`);
+        }
+        if (pipelinesEndpointMode === PipelinesEndpointMode.INTERNAL && allowedCidrs.length + allowedSecurityGroups.length === 0) {
+            throw new Error('pipelinesEndpoint mode INTERNAL requires allowedCidrs or allowedSecurityGroups');
+        }
+        if (pipelinesEndpointMode === PipelinesEndpointMode.PUBLIC_WITH_WAF && allowedCidrs.length === 0) {
+            throw new Error('pipelinesEndpoint mode PUBLIC_WITH_WAF requires allowedCidrs');
+        }
+        if (certificate && !props.pipelinesEndpoint) {
+            Annotations.of(this).addWarning('PipelinesAlb is no longer created by default; set pipelinesEndpoint.mode to expose the pipelines API');
+        }
+
+        let pipelinesAlb: ApplicationLoadBalancer | undefined;
+        if (certificate && pipelinesEndpointMode !== PipelinesEndpointMode.NONE) {
+            const internal = pipelinesEndpointMode === PipelinesEndpointMode.INTERNAL;
+            const pipelinesAlbSG = new SecurityGroup(this, 'PipelinesAlbSG', { vpc, allowAllOutbound: !privateNetworking });
+            if (pipelinesEndpointMode === PipelinesEndpointMode.PUBLIC) {
+                pipelinesAlbSG.addIngressRule(Peer.anyIpv4(), Port.tcp(443));
+            }
+            for (const cidr of allowedCidrs) {
+                pipelinesAlbSG.addIngressRule(cidr.includes(':') ? Peer.ipv6(cidr) : Peer.ipv4(cidr), Port.tcp(443));
+            }
+            for (const securityGroup of allowedSecurityGroups) {
+                pipelinesAlbSG.connections.allowFrom(securityGroup, Port.tcp(443));
+            }
+            pipelinesAlb = new ApplicationLoadBalancer(this, 'PipelinesAlb', {
                 vpc,
-                internetFacing: true,
+                vpcSubnets: internal ? props.pipelinesEndpoint?.subnets : props.loadBalancerSubnets,
+                internetFacing: !internal,
                 securityGroup: pipelinesAlbSG,
             });
+            if (pipelinesEndpointMode === PipelinesEndpointMode.PUBLIC_WITH_WAF) {
+                new PipelinesWebAcl(this, 'PipelinesWebAcl', {
+                    loadBalancer: pipelinesAlb,
+                    allowedCidrs,
+                    rateLimit: props.pipelinesEndpoint?.rateLimit ?? 1000,
+                });
+            }
             const pipelinesTargetGroup = new ApplicationTargetGroup(this, 'PipelinesTargetGroup', {
                 vpc,
                 port: 9099,
@@ -185,16 +878,16 @@ export class OpenWebUIEcsConstruct extends Construct {
                     healthyHttpCodes: '200',
                 },
             });
-            pipelinesTargetGroup.addTarget(fargateService.loadBalancerTarget({
+            pipelinesTargetGroup.addTarget(pipelinesService.loadBalancerTarget({
                 containerName: 'pipelines',
                 containerPort: 9099
             }));
             pipelinesAlb.addListener('PipelinesListener', {
                 port: 443,
                 protocol: ApplicationProtocol.HTTPS,
-                certificates: [{
-                    certificateArn: acmArn,
-                }],
+                // Ingress is managed on PipelinesAlbSG according to the endpoint mode
+                open: false,
+                certificates: [ListenerCertificate.fromCertificateManager(certificate)],
                 defaultTargetGroups: [pipelinesTargetGroup],
             });
         }
@@ -206,6 +899,7 @@ export class OpenWebUIEcsConstruct extends Construct {
         // Load Balancers
         const openWebUIAlb = new ApplicationLoadBalancer(this, 'OpenWebUIAlb', {
             vpc,
+            vpcSubnets: props.loadBalancerSubnets,
             internetFacing: true,
             securityGroup: openWebUIAlbSG,
         });
@@ -222,6 +916,10 @@ export class OpenWebUIEcsConstruct extends Construct {
                 path: '/',
                 healthyHttpCodes: '200',
             },
+            // Keeps a browser's socket.io session on the task that holds it
+            stickinessCookieDuration: multipleTasks
+                ? props.autoScaling?.stickinessDuration ?? Duration.days(1)
+                : undefined,
         });
         openWebUITargetGroup.addTarget(fargateService.loadBalancerTarget({
             containerName: 'openwebui',
@@ -232,33 +930,191 @@ export class OpenWebUIEcsConstruct extends Construct {
 
 
         // ALB Listeners
-        openWebUIAlb.addListener('OpenWebUIListener', {
+        // Only requests carrying the secret origin header from our CloudFront distribution are forwarded
+        const originVerifyHeader = new OriginVerifyHeader(this, 'OriginVerifyHeader', { encryptionKey: kmsKey });
+        const denyAction = ListenerAction.fixedResponse(403, {
+            contentType: 'text/plain',
+            messageBody: 'Access denied',
+        });
+        const httpListener = openWebUIAlb.addListener('OpenWebUIListener', {
             port: 80,
             protocol: ApplicationProtocol.HTTP,
-            defaultTargetGroups: [openWebUITargetGroup],
+            // Ingress is limited to the CloudFront prefix list on OpenWebUIAlbSG
+            open: false,
+            // With HTTPS available, plain HTTP only redirects
+            defaultAction: httpsOrigin
+                ? ListenerAction.redirect({ protocol: 'HTTPS', port: '443', permanent: true })
+                : denyAction,
         });
+        const openWebUIListener = httpsOrigin
+            ? openWebUIAlb.addListener('OpenWebUIHttpsListener', {
+                port: 443,
+                protocol: ApplicationProtocol.HTTPS,
+                open: false,
+                certificates: [ListenerCertificate.fromCertificateManager(certificate)],
+                defaultAction: denyAction,
+            })
+            : httpListener;
+        const allowValidHeaderRule = new ApplicationListenerRule(this, 'AllowValidHeader', {
+            listener: openWebUIListener,
+            priority: 1,
+            conditions: [ListenerCondition.httpHeader(originVerifyHeader.headerName, [originVerifyHeader.headerValue])],
+            action: authentication
+                ? authentication.authenticate(ListenerAction.forward([openWebUITargetGroup]))
+                : ListenerAction.forward([openWebUITargetGroup]),
+        });
+
+        if (props.autoScaling) {
+            configureAutoScaling(fargateService, openWebUITargetGroup, props.autoScaling.minCapacity ?? desiredCount, props.autoScaling);
+        }
 
        
 
         // CloudFront Distributions
+        const cloudFrontWebAclArn = props.cloudFrontWaf
+            ? new CloudFrontWebAcl(this, 'CloudFrontWaf', { logEncryptionKey: kmsKey, ...props.cloudFrontWaf }).webAclArn
+            : props.cloudFrontWebAclArn;
+        const originCustomHeaders = {
+            [originVerifyHeader.headerName]: originVerifyHeader.headerValue,
+        };
         const openwebuiDistribution = new Distribution(this, 'WebUIDistribution', {
             defaultBehavior: {
                 allowedMethods: AllowedMethods.ALLOW_ALL,
-                origin: new LoadBalancerV2Origin(openWebUIAlb, {
-                    protocolPolicy: OriginProtocolPolicy.HTTP_ONLY,
-                }),
-                originRequestPolicy: OriginRequestPolicy.ALL_VIEWER,
+                origin: httpsOrigin
+                    ? new HttpOrigin(originDomainName, {
+                        protocolPolicy: OriginProtocolPolicy.HTTPS_ONLY,
+                        customHeaders: originCustomHeaders,
+                    })
+                    : new LoadBalancerV2Origin(openWebUIAlb, {
+                        protocolPolicy: OriginProtocolPolicy.HTTP_ONLY,
+                        customHeaders: originCustomHeaders,
+                    }),
+                // Forwarding the viewer Host header makes CloudFront verify the origin certificate
+                // against the viewer's domain instead of originDomainName
+                originRequestPolicy: httpsOrigin && !forwardHostHeader
+                    ? OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER
+                    : OriginRequestPolicy.ALL_VIEWER,
                 cachePolicy: CachePolicy.USE_ORIGIN_CACHE_CONTROL_HEADERS,
                 viewerProtocolPolicy: ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
             },
+            domainNames: domain ? [domain.domainName] : undefined,
+            certificate: domain?.cloudFrontCertificate,
+            webAclId: cloudFrontWebAclArn,
         });
 
+        if (domain) {
+            domain.addOriginRecord(openWebUIAlb);
+            domain.addDistributionRecords(openwebuiDistribution);
+            if (pipelinesAlb) {
+                domain.addPipelinesRecord(pipelinesAlb);
+            }
+        }
+
+
+        const monitoring = props.monitoring
+            ? new OpenWebUIMonitoring(this, 'Monitoring', {
+                ...props.monitoring,
+                services: pipelinesServiceProps
+                    ? { OpenWebUI: fargateService, Pipelines: pipelinesService }
+                    : { OpenWebUI: fargateService },
+                loadBalancer: openWebUIAlb,
+                targetGroup: openWebUITargetGroup,
+                distribution: openwebuiDistribution,
+                fileSystem,
+                containerInsights: props.cluster ? props.monitoring.containerInsights ?? false : true,
+                scalesToZero: desiredCount === 0 || props.autoScaling?.minCapacity === 0
+                    || Object.values(props.autoScaling?.schedules ?? {}).some((schedule) => schedule.minCapacity === 0),
+            })
+            : undefined;
+
+        if (props.originVerifyRotation) {
+            originVerifyHeader.addRotation(props.originVerifyRotation, allowValidHeaderRule, openwebuiDistribution);
+        }
+        if (props.apiKeyRotation) {
+            new PipelinesApiKeyRotation(this, 'APIKeyRotation', {
+                secret: apiKeySecret,
+                // Pipelines first: clients of the pipelines endpoint read the key that is now current
+                services: pipelinesServiceProps ? [pipelinesService, fargateService] : [fargateService],
+                automaticallyAfter: props.apiKeyRotation,
+            });
+        }
 
         // Outputs
         new CfnOutput(this, 'OpenWebUI-CloudFrontDomain', {
             value: openwebuiDistribution.domainName,
             description: 'The CloudFront distribution domain name for Open WebUI.',
         });
+        new CfnOutput(this, 'Pipelines-ApiKeySecretArn', {
+            value: apiKeySecret.secretArn,
+            description: 'The Secrets Manager secret holding the current pipelines API key under apiKey.',
+        });
+        if (knowledgeBase) {
+            new CfnOutput(this, 'KnowledgeBase-DocumentsBucket', {
+                value: knowledgeBase.documentsBucket.bucketName,
+                description: 'The S3 bucket whose documents the knowledge base makes searchable.',
+            });
+        }
+        if (monitoring) {
+            new CfnOutput(this, 'Monitoring-AlarmTopicArn', {
+                value: monitoring.alarmTopic.topicArn,
+                description: 'The SNS topic the Open WebUI alarms publish to.',
+            });
+        }
+        if (httpsOrigin && !domain) {
+            new CfnOutput(this, 'OpenWebUI-AlbDomain', {
+                value: openWebUIAlb.loadBalancerDnsName,
+                description: `The Open WebUI ALB domain name that ${originDomainName} must resolve to.`,
+            });
+        }
+        if (domain) {
+            new CfnOutput(this, 'OpenWebUI-Url', {
+                value: `https://${domain.domainName}`,
+                description: 'The custom domain URL for Open WebUI.',
+            });
+            if (authentication?.userPool) {
+                new CfnOutput(this, 'OpenWebUI-UserPoolId', {
+                    value: authentication.userPool.userPoolId,
+                    description: 'The Cognito user pool Open WebUI users sign in with.',
+                });
+            }
+            if (domain.pipelinesDomainName && pipelinesAlb) {
+                new CfnOutput(this, 'Pipelines-Url', {
+                    value: `https://${domain.pipelinesDomainName}`,
+                    description: 'The custom domain URL for the pipelines endpoint.',
+                });
+            }
+        }
+
+    }
+}
+
+function validateTaskSize(cpu: number, memoryLimitMiB: number, prefix = '') {
+    if (Token.isUnresolved(cpu) || Token.isUnresolved(memoryLimitMiB)) {
+        return;
+    }
+    const memory = FARGATE_MEMORY_BY_CPU[cpu];
+    if (!memory) {
+        throw new Error(`${prefix}cpu must be one of ${Object.keys(FARGATE_MEMORY_BY_CPU).join(', ')}, got ${cpu}`);
+    }
+    if (memoryLimitMiB < memory.min || memoryLimitMiB > memory.max || (memoryLimitMiB - memory.min) % memory.step !== 0) {
+        throw new Error(`${prefix}memoryLimitMiB for cpu ${cpu} must be between ${memory.min} and ${memory.max} in increments of ${memory.step}, got ${memoryLimitMiB}`);
+    }
+}
+
+function validateImageTag(name: string, tag: string) {
+    if (!Token.isUnresolved(tag) && !IMAGE_TAG_PATTERN.test(tag)) {
+        throw new Error(`${name} is not a valid image tag: '${tag}'`);
+    }
+}
+
+function validateImageDigest(name: string, digest?: string) {
+    if (digest !== undefined && !Token.isUnresolved(digest) && !IMAGE_DIGEST_PATTERN.test(digest)) {
+        throw new Error(`${name} is not a valid image digest, expected 'sha256:' and 64 hex characters: '${digest}'`);
+    }
+}
 
+function validateInteger(name: string, value: number, min: number) {
+    if (!Token.isUnresolved(value) && (!Number.isInteger(value) || value < min)) {
+        throw new Error(`${name} must be an integer >= ${min}, got ${value}`);
     }
 }
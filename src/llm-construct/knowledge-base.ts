@@ -0,0 +1,476 @@
+import { ArnFormat, CustomResource, Duration, Names, RemovalPolicy, Stack } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { CfnDataSource, CfnKnowledgeBase } from 'aws-cdk-lib/aws-bedrock';
+import { IVpc, Port, SecurityGroup, SubnetSelection } from 'aws-cdk-lib/aws-ec2';
+import { Rule } from 'aws-cdk-lib/aws-events';
+import { SqsQueue } from 'aws-cdk-lib/aws-events-targets';
+import { IGrantable, PolicyStatement, Role, ServicePrincipal } from 'aws-cdk-lib/aws-iam';
+import { IKey } from 'aws-cdk-lib/aws-kms';
+import { Code, Function as LambdaFunction, Runtime } from 'aws-cdk-lib/aws-lambda';
+import { SqsEventSource } from 'aws-cdk-lib/aws-lambda-event-sources';
+import { CfnAccessPolicy, CfnCollection, CfnSecurityPolicy, CfnVpcEndpoint } from 'aws-cdk-lib/aws-opensearchserverless';
+import { AuroraPostgresEngineVersion, ClusterInstance, Credentials, DatabaseCluster, DatabaseClusterEngine } from 'aws-cdk-lib/aws-rds';
+import { BlockPublicAccess, Bucket, BucketEncryption } from 'aws-cdk-lib/aws-s3';
+import { Queue, QueueEncryption } from 'aws-cdk-lib/aws-sqs';
+
+const INDEX_NAME = 'bedrock-knowledge-base-default-index';
+const DATABASE_NAME = 'knowledgebase';
+const TABLE_NAME = 'bedrock_integration.bedrock_kb';
+
+// Inline code can use the cfnresponse module provided by CloudFormation
+const OPENSEARCH_INDEX_HANDLER_CODE = `
+import os
+import time
+import urllib.error
+import urllib.request
+import boto3
+import cfnresponse
+from botocore.auth import SigV4Auth
+from botocore.awsrequest import AWSRequest
+
+def put_index(url, body):
+    request = AWSRequest(method='PUT', url=url, data=body, headers={'Content-Type': 'application/json'})
+    SigV4Auth(boto3.Session().get_credentials(), 'aoss', os.environ['AWS_REGION']).add_auth(request)
+    prepared = request.prepare()
+    urllib.request.urlopen(urllib.request.Request(prepared.url, data=prepared.body, headers=dict(prepared.headers), method='PUT'))
+
+def handler(event, context):
+    try:
+        props = event['ResourceProperties']
+        if event['RequestType'] == 'Create':
+            # New data access policies take a while to apply
+            for attempt in range(20):
+                try:
+                    put_index(f"{props['Endpoint']}/{props['IndexName']}", props['Body'].encode())
+                    break
+                except urllib.error.HTTPError as e:
+                    if e.code != 403 or attempt == 19:
+                        raise
+                    time.sleep(15)
+            # Bedrock rejects the index until it is searchable
+            time.sleep(60)
+        cfnresponse.send(event, context, cfnresponse.SUCCESS, {}, props['IndexName'])
+    except Exception as e:
+        print(f"Error creating the vector index: {e}")
+        cfnresponse.send(event, context, cfnresponse.FAILED, {}, 'VectorIndex')
+`;
+
+const PGVECTOR_SCHEMA_HANDLER_CODE = `
+import time
+import boto3
+import cfnresponse
+
+def handler(event, context):
+    try:
+        if event['RequestType'] != 'Delete':
+            props = event['ResourceProperties']
+            client = boto3.client('rds-data')
+            for sql in props['Statements']:
+                # The Data API fails while the cluster is still starting
+                for attempt in range(10):
+                    try:
+                        client.execute_statement(resourceArn=props['ClusterArn'], secretArn=props['SecretArn'], database=props['Database'], sql=sql)
+                        break
+                    except client.exceptions.DatabaseResumingException:
+                        if attempt == 9:
+                            raise
+                        time.sleep(15)
+        cfnresponse.send(event, context, cfnresponse.SUCCESS, {}, 'VectorSchema')
+    except Exception as e:
+        print(f"Error creating the vector schema: {e}")
+        cfnresponse.send(event, context, cfnresponse.FAILED, {}, 'VectorSchema')
+`;
+
+const INGESTION_HANDLER_CODE = `
+import os
+import boto3
+
+client = boto3.client('bedrock-agent')
+
+def handler(event, context):
+    ids = {'knowledgeBaseId': os.environ['KNOWLEDGE_BASE_ID'], 'dataSourceId': os.environ['DATA_SOURCE_ID']}
+    running = client.list_ingestion_jobs(**ids, filters=[{'attribute': 'STATUS', 'operator': 'EQ', 'values': ['STARTING', 'IN_PROGRESS']}])
+    if running['ingestionJobSummaries']:
+        # The running sync may have listed the bucket before these changes; the batch
+        # returns to the queue and starts a sync once the running one is done
+        raise RuntimeError(f"{len(event['Records'])} changes wait for the running ingestion job")
+    # Raises a ConflictException if another batch started a sync meanwhile, with the same effect
+    job = client.start_ingestion_job(**ids)
+    print(f"Started ingestion job {job['ingestionJob']['ingestionJobId']} for {len(event['Records'])} changes")
+`;
+
+/**
+ * Where the knowledge base stores its embeddings.
+ */
+export enum KnowledgeBaseVectorStore {
+    /** An OpenSearch Serverless vector search collection. */
+    OPENSEARCH_SERVERLESS = 'OPENSEARCH_SERVERLESS',
+    /** An Aurora Serverless v2 PostgreSQL cluster with pgvector, queried through the Data API. */
+    AURORA_PGVECTOR = 'AURORA_PGVECTOR',
+}
+
+export interface OpenWebUIKnowledgeBaseProps {
+    /**
+     * Where the embeddings are stored.
+     * @default KnowledgeBaseVectorStore.OPENSEARCH_SERVERLESS
+     */
+    readonly vectorStore?: KnowledgeBaseVectorStore;
+
+    /**
+     * Foundation model creating the embeddings, in the stack's region.
+     * @default 'amazon.titan-embed-text-v2:0'
+     */
+    readonly embeddingModelId?: string;
+
+    /**
+     * Dimensions of the embedding model's vectors.
+     * @default 1024
+     */
+    readonly embeddingDimensions?: number;
+
+    /**
+     * Only index documents under these key prefixes.
+     * @default - the whole bucket
+     */
+    readonly inclusionPrefixes?: string[];
+
+    /**
+     * What happens to the documents bucket and the vector store when they are removed from the stack.
+     * @default RemovalPolicy.RETAIN
+     */
+    readonly removalPolicy?: RemovalPolicy;
+}
+
+export interface OpenWebUIKnowledgeBaseConstructProps extends OpenWebUIKnowledgeBaseProps {
+    /** VPC the vector store, or the endpoint of an OpenSearch Serverless collection, is in. */
+    readonly vpc: IVpc;
+
+    /**
+     * Subnets of an Aurora vector store, or of the collection endpoint and the function creating the
+     * index. The function has to reach CloudFormation through them.
+     * @default - the VPC's private subnets
+     */
+    readonly subnets?: SubnetSelection;
+
+    /**
+     * Key the documents and the vector store are encrypted with.
+     * @default - AWS managed keys
+     */
+    readonly encryptionKey?: IKey;
+}
+
+/**
+ * Bedrock knowledge base over an S3 documents bucket. Changes to the bucket are collected in a queue
+ * and synced in batches, so uploaded documents become searchable without further steps.
+ */
+export class OpenWebUIKnowledgeBase extends Construct {
+    public readonly documentsBucket: Bucket;
+
+    public readonly knowledgeBase: CfnKnowledgeBase;
+
+    public readonly knowledgeBaseId: string;
+
+    public readonly knowledgeBaseArn: string;
+
+    /** Container environment pointing a pipeline at the knowledge base. */
+    public readonly environment: { [key: string]: string };
+
+    constructor(scope: Construct, id: string, props: OpenWebUIKnowledgeBaseConstructProps) {
+        super(scope, id);
+
+        const stack = Stack.of(this);
+        const removalPolicy = props.removalPolicy ?? RemovalPolicy.RETAIN;
+        const embeddingDimensions = props.embeddingDimensions ?? 1024;
+        const embeddingModelArn = stack.formatArn({
+            service: 'bedrock',
+            account: '',
+            resource: 'foundation-model',
+            resourceName: props.embeddingModelId ?? 'amazon.titan-embed-text-v2:0',
+            arnFormat: ArnFormat.SLASH_RESOURCE_NAME,
+        });
+
+        // Documents
+        this.documentsBucket = new Bucket(this, 'Documents', {
+            encryption: props.encryptionKey ? BucketEncryption.KMS : BucketEncryption.S3_MANAGED,
+            encryptionKey: props.encryptionKey,
+            blockPublicAccess: BlockPublicAccess.BLOCK_ALL,
+            enforceSSL: true,
+            versioned: true,
+            eventBridgeEnabled: true,
+            removalPolicy,
+        });
+
+        // Bedrock only uses the role for knowledge bases in this account
+        const role = new Role(this, 'Role', {
+            assumedBy: new ServicePrincipal('bedrock.amazonaws.com').withConditions({
+                StringEquals: { 'aws:SourceAccount': stack.account },
+                ArnLike: { 'aws:SourceArn': stack.formatArn({ service: 'bedrock', resource: 'knowledge-base', resourceName: '*' }) },
+            }),
+        });
+        role.addToPolicy(new PolicyStatement({
+            actions: ['bedrock:InvokeModel'],
+            resources: [embeddingModelArn],
+        }));
+        this.documentsBucket.grantRead(role);
+
+        const storageConfiguration = (props.vectorStore ?? KnowledgeBaseVectorStore.OPENSEARCH_SERVERLESS) === KnowledgeBaseVectorStore.AURORA_PGVECTOR
+            ? this.createPgvectorStore(role, embeddingDimensions, removalPolicy, props)
+            : this.createOpenSearchStore(role, embeddingDimensions, removalPolicy, props);
+
+        this.knowledgeBase = new CfnKnowledgeBase(this, 'Resource', {
+            name: Names.uniqueResourceName(this, { maxLength: 100 }),
+            roleArn: role.roleArn,
+            knowledgeBaseConfiguration: {
+                type: 'VECTOR',
+                vectorKnowledgeBaseConfiguration: { embeddingModelArn },
+            },
+            storageConfiguration: storageConfiguration.config,
+        });
+        // Bedrock checks the role and the vector store when the knowledge base is created
+        this.knowledgeBase.node.addDependency(role, storageConfiguration.ready);
+        this.knowledgeBaseId = this.knowledgeBase.attrKnowledgeBaseId;
+        this.knowledgeBaseArn = this.knowledgeBase.attrKnowledgeBaseArn;
+
+        const dataSource = new CfnDataSource(this, 'DataSource', {
+            knowledgeBaseId: this.knowledgeBaseId,
+            name: 'Documents',
+            dataSourceConfiguration: {
+                type: 'S3',
+                s3Configuration: {
+                    bucketArn: this.documentsBucket.bucketArn,
+                    inclusionPrefixes: props.inclusionPrefixes,
+                },
+            },
+        });
+
+        // Sync
+        // A sync covers every change made before it lists the bucket, so changes are collected and
+        // synced together; a batch that arrives during a sync is retried after the visibility timeout
+        const changes = new Queue(this, 'DocumentChanges', {
+            encryption: QueueEncryption.SQS_MANAGED,
+            enforceSSL: true,
+            visibilityTimeout: Duration.minutes(15),
+            deadLetterQueue: {
+                // Retried for about a day
+                maxReceiveCount: 96,
+                queue: new Queue(this, 'DocumentChangesDeadLetters', {
+                    encryption: QueueEncryption.SQS_MANAGED,
+                    enforceSSL: true,
+                    retentionPeriod: Duration.days(14),
+                }),
+            },
+        });
+        const ingestionFunction = new LambdaFunction(this, 'IngestionFunction', {
+            runtime: Runtime.PYTHON_3_12,
+            handler: 'index.handler',
+            code: Code.fromInline(INGESTION_HANDLER_CODE),
+            timeout: Duration.seconds(30),
+            environment: {
+                KNOWLEDGE_BASE_ID: this.knowledgeBaseId,
+                DATA_SOURCE_ID: dataSource.attrDataSourceId,
+            },
+        });
+        ingestionFunction.addToRolePolicy(new PolicyStatement({
+            actions: ['bedrock:StartIngestionJob', 'bedrock:ListIngestionJobs'],
+            resources: [this.knowledgeBaseArn],
+        }));
+        ingestionFunction.addEventSource(new SqsEventSource(changes, {
+            batchSize: 10000,
+            maxBatchingWindow: Duration.minutes(5),
+        }));
+        new Rule(this, 'DocumentsChanged', {
+            eventPattern: {
+                source: ['aws.s3'],
+                detailType: ['Object Created', 'Object Deleted'],
+                detail: { bucket: { name: [this.documentsBucket.bucketName] } },
+            },
+            targets: [new SqsQueue(changes)],
+        });
+
+        this.environment = {
+            KNOWLEDGE_BASE_ID: this.knowledgeBaseId,
+            KNOWLEDGE_BASE_REGION: stack.region,
+        };
+    }
+
+    /** Allows `grantee` to query the knowledge base. */
+    public grantRetrieve(grantee: IGrantable) {
+        grantee.grantPrincipal.addToPrincipalPolicy(new PolicyStatement({
+            actions: ['bedrock:Retrieve'],
+            resources: [this.knowledgeBaseArn],
+        }));
+    }
+
+    private createOpenSearchStore(role: Role, embeddingDimensions: number, removalPolicy: RemovalPolicy, props: OpenWebUIKnowledgeBaseConstructProps) {
+        // Collection and policy names are limited to 32 lowercase characters
+        const name = Names.uniqueResourceName(this, { maxLength: 32, separator: '-' }).toLowerCase();
+        const encryptionPolicy = new CfnSecurityPolicy(this, 'EncryptionPolicy', {
+            name,
+            type: 'encryption',
+            policy: JSON.stringify({
+                Rules: [{ ResourceType: 'collection', Resource: [`collection/${name}`] }],
+                ...(props.encryptionKey ? { KmsARN: props.encryptionKey.keyArn } : { AWSOwnedKey: true }),
+            }),
+        });
+        // The collection is only reachable by Bedrock and through an endpoint in the VPC
+        const endpointSecurityGroup = new SecurityGroup(this, 'CollectionEndpointSG', { vpc: props.vpc, allowAllOutbound: false });
+        const endpoint = new CfnVpcEndpoint(this, 'CollectionEndpoint', {
+            name,
+            vpcId: props.vpc.vpcId,
+            subnetIds: props.vpc.selectSubnets(props.subnets).subnetIds,
+            securityGroupIds: [endpointSecurityGroup.securityGroupId],
+        });
+        const networkPolicy = new CfnSecurityPolicy(this, 'NetworkPolicy', {
+            name,
+            type: 'network',
+            policy: JSON.stringify([{
+                Rules: [{ ResourceType: 'collection', Resource: [`collection/${name}`] }],
+                AllowFromPublic: false,
+                SourceVPCEs: [endpoint.attrId],
+                SourceServices: ['bedrock.amazonaws.com'],
+            }]),
+        });
+        const collection = new CfnCollection(this, 'Collection', { name, type: 'VECTORSEARCH' });
+        collection.applyRemovalPolicy(removalPolicy);
+        collection.node.addDependency(encryptionPolicy, networkPolicy);
+
+        const indexFunction = new LambdaFunction(this, 'VectorIndexFunction', {
+            runtime: Runtime.PYTHON_3_12,
+            handler: 'index.handler',
+            code: Code.fromInline(OPENSEARCH_INDEX_HANDLER_CODE),
+            timeout: Duration.minutes(10),
+            vpc: props.vpc,
+            vpcSubnets: props.subnets,
+        });
+        endpointSecurityGroup.connections.allowFrom(indexFunction, Port.tcp(443), 'Index function to the collection');
+        for (const principal of [role, indexFunction.role!]) {
+            principal.addToPrincipalPolicy(new PolicyStatement({
+                actions: ['aoss:APIAccessAll'],
+                resources: [collection.attrArn],
+            }));
+        }
+        const accessPolicy = new CfnAccessPolicy(this, 'AccessPolicy', {
+            name,
+            type: 'data',
+            policy: JSON.stringify([{
+                Rules: [
+                    {
+                        ResourceType: 'collection',
+                        Resource: [`collection/${name}`],
+                        Permission: ['aoss:DescribeCollectionItems'],
+                    },
+                    {
+                        ResourceType: 'index',
+                        Resource: [`index/${name}/*`],
+                        Permission: ['aoss:CreateIndex', 'aoss:DescribeIndex', 'aoss:ReadDocument', 'aoss:WriteDocument', 'aoss:UpdateIndex'],
+                    },
+                ],
+                Principal: [role.roleArn, indexFunction.role!.roleArn],
+            }]),
+        });
+
+        const index = new CustomResource(this, 'VectorIndex', {
+            serviceToken: indexFunction.functionArn,
+            properties: {
+                Endpoint: collection.attrCollectionEndpoint,
+                IndexName: INDEX_NAME,
+                Body: JSON.stringify({
+                    settings: { index: { 'knn': true, 'knn.algo_param.ef_search': 512 } },
+                    mappings: {
+                        properties: {
+                            embedding: {
+                                type: 'knn_vector',
+                                dimension: embeddingDimensions,
+                                method: { name: 'hnsw', engine: 'faiss', space_type: 'l2' },
+                            },
+                            text: { type: 'text' },
+                            metadata: { type: 'text', index: false },
+                        },
+                    },
+                }),
+            },
+        });
+        index.node.addDependency(accessPolicy, endpoint);
+
+        return {
+            ready: index,
+            config: {
+                type: 'OPENSEARCH_SERVERLESS',
+                opensearchServerlessConfiguration: {
+                    collectionArn: collection.attrArn,
+                    vectorIndexName: INDEX_NAME,
+                    fieldMapping: { vectorField: 'embedding', textField: 'text', metadataField: 'metadata' },
+                },
+            },
+        };
+    }
+
+    private createPgvectorStore(role: Role, embeddingDimensions: number, removalPolicy: RemovalPolicy, props: OpenWebUIKnowledgeBaseConstructProps) {
+        // Bedrock and the schema function only use the Data API, so nothing connects to the database port
+        const cluster = new DatabaseCluster(this, 'VectorDatabase', {
+            engine: DatabaseClusterEngine.auroraPostgres({ version: AuroraPostgresEngineVersion.VER_16_4 }),
+            credentials: Credentials.fromGeneratedSecret('knowledgebase', { encryptionKey: props.encryptionKey }),
+            defaultDatabaseName: DATABASE_NAME,
+            writer: ClusterInstance.serverlessV2('Writer'),
+            serverlessV2MinCapacity: 0.5,
+            serverlessV2MaxCapacity: 4,
+            enableDataApi: true,
+            vpc: props.vpc,
+            vpcSubnets: props.subnets,
+            securityGroups: [new SecurityGroup(this, 'VectorDatabaseSG', { vpc: props.vpc, allowAllOutbound: false })],
+            storageEncrypted: true,
+            storageEncryptionKey: props.encryptionKey,
+            removalPolicy,
+        });
+        const secret = cluster.secret!;
+        cluster.grantDataApiAccess(role);
+        role.addToPolicy(new PolicyStatement({
+            actions: ['rds:DescribeDBClusters'],
+            resources: [cluster.clusterArn],
+        }));
+
+        const schemaFunction = new LambdaFunction(this, 'VectorSchemaFunction', {
+            runtime: Runtime.PYTHON_3_12,
+            handler: 'index.handler',
+            code: Code.fromInline(PGVECTOR_SCHEMA_HANDLER_CODE),
+            timeout: Duration.minutes(5),
+        });
+        cluster.grantDataApiAccess(schemaFunction);
+        const schema = new CustomResource(this, 'VectorSchema', {
+            serviceToken: schemaFunction.functionArn,
+            properties: {
+                ClusterArn: cluster.clusterArn,
+                SecretArn: secret.secretArn,
+                Database: DATABASE_NAME,
+                // The table layout Bedrock expects, see the Aurora section of the Bedrock knowledge base guide
+                Statements: [
+                    'CREATE EXTENSION IF NOT EXISTS vector',
+                    'CREATE SCHEMA IF NOT EXISTS bedrock_integration',
+                    `CREATE TABLE IF NOT EXISTS ${TABLE_NAME} (id uuid PRIMARY KEY, embedding vector(${embeddingDimensions}), chunks text, metadata json, custom_metadata jsonb)`,
+                    `CREATE INDEX IF NOT EXISTS bedrock_kb_embedding_idx ON ${TABLE_NAME} USING hnsw (embedding vector_cosine_ops)`,
+                    `CREATE INDEX IF NOT EXISTS bedrock_kb_chunks_idx ON ${TABLE_NAME} USING gin (to_tsvector('simple', chunks))`,
+                ],
+            },
+        });
+        schema.node.addDependency(cluster);
+
+        return {
+            ready: schema,
+            config: {
+                type: 'RDS',
+                rdsConfiguration: {
+                    resourceArn: cluster.clusterArn,
+                    credentialsSecretArn: secret.secretArn,
+                    databaseName: DATABASE_NAME,
+                    tableName: TABLE_NAME,
+                    fieldMapping: {
+                        primaryKeyField: 'id',
+                        vectorField: 'embedding',
+                        textField: 'chunks',
+                        metadataField: 'metadata',
+                    },
+                },
+            },
+        };
+    }
+}
@@ -0,0 +1,26 @@
+// Secrets Manager rotation handler for the pipelines API key.
+// ECS only reads secrets when a task starts, so once the new key is current the
+// services are redeployed in order, each once the one before it is stable.
+import { ECSClient, UpdateServiceCommand, waitUntilServicesStable } from '@aws-sdk/client-ecs';
+import { rotationHandler } from './rotation.mjs';
+
+const ecs = new ECSClient({});
+
+const { CLUSTER_ARN, SERVICE_NAMES } = process.env;
+
+// Forcing a new deployment again on a retry only restarts the tasks once more
+async function redeploy() {
+    const services = SERVICE_NAMES.split(',');
+    for (const [index, service] of services.entries()) {
+        await ecs.send(new UpdateServiceCommand({
+            cluster: CLUSTER_ARN,
+            service,
+            forceNewDeployment: true,
+        }));
+        if (index < services.length - 1) {
+            await waitUntilServicesStable({ client: ecs, maxWaitTime: 780 }, { cluster: CLUSTER_ARN, services: [service] });
+        }
+    }
+}
+
+export const handler = rotationHandler({ field: 'apiKey', afterFinish: redeploy });
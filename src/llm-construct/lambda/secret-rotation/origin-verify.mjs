@@ -0,0 +1,64 @@
+// Secrets Manager rotation handler for the CloudFront origin verification header.
+// The listener rule accepts both the new and the previous value, so requests keep
+// flowing while the distribution update propagates to the edge locations. Once the
+// distribution has deployed, the rule is narrowed to the new value.
+import { ElasticLoadBalancingV2Client, ModifyRuleCommand } from '@aws-sdk/client-elastic-load-balancing-v2';
+import {
+    CloudFrontClient,
+    GetDistributionConfigCommand,
+    UpdateDistributionCommand,
+    waitUntilDistributionDeployed,
+} from '@aws-sdk/client-cloudfront';
+import { getValue, rotationHandler } from './rotation.mjs';
+
+const elb = new ElasticLoadBalancingV2Client({});
+const cloudfront = new CloudFrontClient({ region: 'us-east-1' });
+
+const { HEADER_NAME, LISTENER_RULE_ARN, DISTRIBUTION_ID } = process.env;
+
+async function setAcceptedValues(values) {
+    await elb.send(new ModifyRuleCommand({
+        RuleArn: LISTENER_RULE_ARN,
+        Conditions: [{
+            Field: 'http-header',
+            HttpHeaderConfig: { HttpHeaderName: HEADER_NAME, Values: values },
+        }],
+    }));
+}
+
+async function setSecret(secretId, token) {
+    const current = await getValue(secretId, 'AWSCURRENT');
+    const pending = await getValue(secretId, 'AWSPENDING', token);
+
+    await setAcceptedValues([pending.headerValue, current.headerValue]);
+
+    const { DistributionConfig, ETag } = await cloudfront.send(new GetDistributionConfigCommand({ Id: DISTRIBUTION_ID }));
+    for (const origin of DistributionConfig.Origins.Items) {
+        for (const header of origin.CustomHeaders?.Items ?? []) {
+            if (header.HeaderName === HEADER_NAME) {
+                header.HeaderValue = pending.headerValue;
+            }
+        }
+    }
+    await cloudfront.send(new UpdateDistributionCommand({
+        Id: DISTRIBUTION_ID,
+        IfMatch: ETag,
+        DistributionConfig,
+    }));
+}
+
+async function beforeFinish(secretId, token) {
+    const pending = await getValue(secretId, 'AWSPENDING', token);
+    const { DistributionConfig } = await cloudfront.send(new GetDistributionConfigCommand({ Id: DISTRIBUTION_ID }));
+    const sent = DistributionConfig.Origins.Items
+        .flatMap((origin) => origin.CustomHeaders?.Items ?? [])
+        .filter((header) => header.HeaderName === HEADER_NAME);
+    if (sent.some((header) => header.HeaderValue !== pending.headerValue)) {
+        throw new Error(`Distribution ${DISTRIBUTION_ID} does not send the pending header value yet`);
+    }
+    // The previous value stays valid until every edge location sends the new one
+    await waitUntilDistributionDeployed({ client: cloudfront, maxWaitTime: 780 }, { Id: DISTRIBUTION_ID });
+    await setAcceptedValues([pending.headerValue]);
+}
+
+export const handler = rotationHandler({ field: 'headerValue', setSecret, beforeFinish });
@@ -0,0 +1,93 @@
+// Secrets Manager rotation steps shared by the rotation handlers. A handler names the
+// secret field it generates and hooks into the steps where its consumers need updating.
+import {
+    DescribeSecretCommand,
+    GetRandomPasswordCommand,
+    GetSecretValueCommand,
+    PutSecretValueCommand,
+    SecretsManagerClient,
+    UpdateSecretVersionStageCommand,
+} from '@aws-sdk/client-secrets-manager';
+
+const secrets = new SecretsManagerClient({});
+
+export async function getValue(secretId, stage, versionId) {
+    const response = await secrets.send(new GetSecretValueCommand({
+        SecretId: secretId,
+        VersionStage: stage,
+        VersionId: versionId,
+    }));
+    return JSON.parse(response.SecretString);
+}
+
+// setSecret(secretId, token) lets the consumers accept the pending value.
+// beforeFinish(secretId, token) runs before the pending version becomes current.
+// afterFinish() runs once it is current, on every finishSecret call including
+// retries after the stage has moved, so it must be safe to repeat.
+export function rotationHandler({ field, setSecret, beforeFinish, afterFinish }) {
+    return async (event) => {
+        const { SecretId: secretId, ClientRequestToken: token, Step: step } = event;
+        const metadata = await secrets.send(new DescribeSecretCommand({ SecretId: secretId }));
+        const stages = metadata.VersionIdsToStages?.[token];
+        if (!stages) {
+            throw new Error(`Version ${token} of secret ${secretId} has no stage for rotation`);
+        }
+        if (stages.includes('AWSCURRENT')) {
+            if (step === 'finishSecret') {
+                await afterFinish?.();
+            }
+            return;
+        }
+        if (!stages.includes('AWSPENDING')) {
+            throw new Error(`Version ${token} of secret ${secretId} is not pending rotation`);
+        }
+
+        switch (step) {
+            case 'createSecret':
+                return createSecret(secretId, token, field);
+            case 'setSecret':
+                return setSecret?.(secretId, token);
+            case 'testSecret':
+                return;
+            case 'finishSecret':
+                await beforeFinish?.(secretId, token);
+                await finishSecret(secretId, token, metadata.VersionIdsToStages);
+                return afterFinish?.();
+            default:
+                throw new Error(`Unknown rotation step ${step}`);
+        }
+    };
+}
+
+async function createSecret(secretId, token, field) {
+    try {
+        await getValue(secretId, 'AWSPENDING', token);
+        return;
+    } catch (e) {
+        if (e.name !== 'ResourceNotFoundException') {
+            throw e;
+        }
+    }
+    const current = await getValue(secretId, 'AWSCURRENT');
+    const { RandomPassword } = await secrets.send(new GetRandomPasswordCommand({
+        ExcludePunctuation: true,
+        IncludeSpace: false,
+    }));
+    await secrets.send(new PutSecretValueCommand({
+        SecretId: secretId,
+        ClientRequestToken: token,
+        SecretString: JSON.stringify({ ...current, [field]: RandomPassword }),
+        VersionStages: ['AWSPENDING'],
+    }));
+}
+
+async function finishSecret(secretId, token, versionIdsToStages) {
+    const currentVersion = Object.keys(versionIdsToStages)
+        .find((versionId) => versionIdsToStages[versionId].includes('AWSCURRENT'));
+    await secrets.send(new UpdateSecretVersionStageCommand({
+        SecretId: secretId,
+        VersionStage: 'AWSCURRENT',
+        MoveToVersionId: token,
+        RemoveFromVersionId: currentVersion,
+    }));
+}
@@ -0,0 +1,270 @@
+import { Annotations, Duration, Stack, Token } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import {
+    Alarm,
+    ComparisonOperator,
+    Dashboard,
+    GraphWidget,
+    IMetric,
+    MathExpression,
+    Metric,
+    TreatMissingData,
+} from 'aws-cdk-lib/aws-cloudwatch';
+import { SnsAction } from 'aws-cdk-lib/aws-cloudwatch-actions';
+import { IDistribution } from 'aws-cdk-lib/aws-cloudfront';
+import { FargateService } from 'aws-cdk-lib/aws-ecs';
+import { IFileSystem } from 'aws-cdk-lib/aws-efs';
+import { ApplicationLoadBalancer, ApplicationTargetGroup, HttpCodeElb, HttpCodeTarget } from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import { ITopic, Topic } from 'aws-cdk-lib/aws-sns';
+import { EmailSubscription } from 'aws-cdk-lib/aws-sns-subscriptions';
+
+export interface OpenWebUIAlarmThresholds {
+    /**
+     * Average CPU utilization of a service, in percent.
+     * @default 80
+     */
+    readonly cpuUtilizationPercent?: number;
+
+    /**
+     * Average memory utilization of a service, in percent.
+     * @default 80
+     */
+    readonly memoryUtilizationPercent?: number;
+
+    /**
+     * 5xx responses from the Open WebUI ALB and its targets per 5 minutes.
+     * @default 10
+     */
+    readonly alb5xxCount?: number;
+
+    /**
+     * 90th percentile of the Open WebUI target response time.
+     * @default Duration.seconds(5)
+     */
+    readonly targetResponseTime?: Duration;
+
+    /**
+     * CloudFront 5xx error rate, in percent. Only alarmed on when the stack is in us-east-1,
+     * where CloudFront publishes its metrics.
+     * @default 5
+     */
+    readonly cloudFront5xxErrorRatePercent?: number;
+
+    /**
+     * EFS burst credit balance, in bytes, below which the file system is about to be throttled.
+     * @default 1e12
+     */
+    readonly efsBurstCreditBalanceBytes?: number;
+}
+
+export interface OpenWebUIMonitoringProps {
+    /**
+     * Topic the alarms publish to.
+     * @default - a new topic
+     */
+    readonly alarmTopic?: ITopic;
+
+    /**
+     * Email addresses subscribed to a created alarm topic.
+     * @default - no subscriptions
+     */
+    readonly alarmEmails?: string[];
+
+    /**
+     * Alarm thresholds.
+     * @default - the defaults of each threshold
+     */
+    readonly thresholds?: OpenWebUIAlarmThresholds;
+
+    /**
+     * Name of the CloudWatch dashboard.
+     * @default - generated by CloudFormation
+     */
+    readonly dashboardName?: string;
+
+    /**
+     * Whether Container Insights is turned on for the cluster. The running task widget and alarms
+     * need its metrics. The construct turns it on for a cluster it creates; set this when an
+     * existing `cluster` has it turned on.
+     * @default - true for a created cluster, false for an existing one
+     */
+    readonly containerInsights?: boolean;
+}
+
+export interface OpenWebUIMonitoringConstructProps extends OpenWebUIMonitoringProps {
+    /** Services to show and alarm on, keyed by the name used in widget and alarm titles. */
+    readonly services: { [name: string]: FargateService };
+    readonly loadBalancer: ApplicationLoadBalancer;
+    readonly targetGroup: ApplicationTargetGroup;
+    readonly distribution: IDistribution;
+    readonly fileSystem: IFileSystem;
+
+    /**
+     * Whether Open WebUI may run no tasks on purpose, e.g. on a schedule. The alarm on having no
+     * healthy targets is then left out.
+     * @default false
+     */
+    readonly scalesToZero?: boolean;
+}
+
+/**
+ * CloudWatch dashboard and alarms for the ECS services, the Open WebUI ALB, CloudFront and EFS.
+ */
+export class OpenWebUIMonitoring extends Construct {
+    /** Topic the alarms publish to. */
+    public readonly alarmTopic: ITopic;
+
+    public readonly dashboard: Dashboard;
+
+    constructor(scope: Construct, id: string, props: OpenWebUIMonitoringConstructProps) {
+        super(scope, id);
+
+        if (props.alarmTopic) {
+            this.alarmTopic = props.alarmTopic;
+        } else {
+            const topic = new Topic(this, 'AlarmTopic');
+            for (const email of props.alarmEmails ?? []) {
+                topic.addSubscription(new EmailSubscription(email));
+            }
+            this.alarmTopic = topic;
+        }
+        const thresholds = props.thresholds ?? {};
+        const alarmAction = new SnsAction(this.alarmTopic);
+        const addAlarm = (alarmId: string, metric: IMetric, threshold: number, comparisonOperator: ComparisonOperator, description: string,
+            treatMissingData = TreatMissingData.NOT_BREACHING) => {
+            const alarm = new Alarm(this, alarmId, {
+                metric,
+                threshold,
+                comparisonOperator,
+                evaluationPeriods: 3,
+                datapointsToAlarm: 2,
+                treatMissingData,
+                alarmDescription: description,
+            });
+            alarm.addAlarmAction(alarmAction);
+            alarm.addOkAction(alarmAction);
+        };
+        const period = Duration.minutes(5);
+
+        // ECS
+        const cpuMetrics: IMetric[] = [];
+        const memoryMetrics: IMetric[] = [];
+        const runningTaskMetrics: IMetric[] = [];
+        const containerInsights = props.containerInsights ?? true;
+        if (!containerInsights) {
+            Annotations.of(this).addWarning('Container Insights is not turned on for the cluster, so running tasks are not monitored; set monitoring.containerInsights once it is');
+        }
+        for (const [name, service] of Object.entries(props.services)) {
+            const cpu = service.metricCpuUtilization({ period, label: `${name} CPU` });
+            const memory = service.metricMemoryUtilization({ period, label: `${name} memory` });
+            cpuMetrics.push(cpu);
+            memoryMetrics.push(memory);
+            // Published by Container Insights
+            const taskCount = (metricName: string, label: string) => new Metric({
+                namespace: 'ECS/ContainerInsights',
+                metricName,
+                dimensionsMap: { ClusterName: service.cluster.clusterName, ServiceName: service.serviceName },
+                statistic: 'Minimum',
+                period,
+                label,
+            });
+            if (containerInsights) {
+                const runningTasks = taskCount('RunningTaskCount', name);
+                runningTaskMetrics.push(runningTasks);
+                const missingTasks = new MathExpression({
+                    expression: 'desired - running',
+                    usingMetrics: { desired: taskCount('DesiredTaskCount', `${name} desired`), running: runningTasks },
+                    label: `${name} missing tasks`,
+                    period,
+                });
+                addAlarm(`${name}RunningTasksAlarm`, missingTasks, 0,
+                    ComparisonOperator.GREATER_THAN_THRESHOLD, `${name} runs fewer tasks than desired`);
+            }
+            addAlarm(`${name}CpuAlarm`, cpu, thresholds.cpuUtilizationPercent ?? 80,
+                ComparisonOperator.GREATER_THAN_THRESHOLD, `${name} CPU utilization is high`);
+            addAlarm(`${name}MemoryAlarm`, memory, thresholds.memoryUtilizationPercent ?? 80,
+                ComparisonOperator.GREATER_THAN_THRESHOLD, `${name} memory utilization is high`);
+        }
+
+        // ALB
+        const alb5xx = new MathExpression({
+            expression: 'elb + target',
+            usingMetrics: {
+                elb: props.loadBalancer.metrics.httpCodeElb(HttpCodeElb.ELB_5XX_COUNT, { period }),
+                target: props.loadBalancer.metrics.httpCodeTarget(HttpCodeTarget.TARGET_5XX_COUNT, { period }),
+            },
+            label: '5xx responses',
+            period,
+        });
+        const responseTime = props.targetGroup.metrics.targetResponseTime({ period, statistic: 'p90', label: 'p90 response time' });
+        const healthyHosts = props.targetGroup.metrics.healthyHostCount({ period, statistic: 'Minimum', label: 'Healthy' });
+        const unhealthyHosts = props.targetGroup.metrics.unhealthyHostCount({ period, statistic: 'Maximum', label: 'Unhealthy' });
+        addAlarm('Alb5xxAlarm', alb5xx, thresholds.alb5xxCount ?? 10,
+            ComparisonOperator.GREATER_THAN_THRESHOLD, 'The Open WebUI ALB returns 5xx responses');
+        addAlarm('TargetResponseTimeAlarm', responseTime, (thresholds.targetResponseTime ?? Duration.seconds(5)).toSeconds(),
+            ComparisonOperator.GREATER_THAN_THRESHOLD, 'Open WebUI responds slowly');
+        addAlarm('UnhealthyHostsAlarm', unhealthyHosts, 0,
+            ComparisonOperator.GREATER_THAN_THRESHOLD, 'Open WebUI tasks fail ALB health checks');
+        if (!props.scalesToZero) {
+            addAlarm('NoHealthyHostsAlarm', healthyHosts, 1,
+                ComparisonOperator.LESS_THAN_THRESHOLD, 'Open WebUI has no healthy targets');
+        }
+
+        // CloudFront publishes its metrics in us-east-1 only
+        const region = Stack.of(this).region;
+        const inUsEast1 = !Token.isUnresolved(region) && region === 'us-east-1';
+        const cloudFrontMetric = (metricName: string, label: string) => new Metric({
+            namespace: 'AWS/CloudFront',
+            metricName,
+            dimensionsMap: { DistributionId: props.distribution.distributionId, Region: 'Global' },
+            statistic: 'Average',
+            region: inUsEast1 ? undefined : 'us-east-1',
+            period,
+            label,
+        });
+        const cloudFront5xx = cloudFrontMetric('5xxErrorRate', '5xx error rate');
+        if (inUsEast1) {
+            addAlarm('CloudFront5xxAlarm', cloudFront5xx, thresholds.cloudFront5xxErrorRatePercent ?? 5,
+                ComparisonOperator.GREATER_THAN_THRESHOLD, 'CloudFront returns 5xx responses for Open WebUI');
+        }
+
+        // EFS
+        const efsMetric = (metricName: string, statistic: string, label: string) => new Metric({
+            namespace: 'AWS/EFS',
+            metricName,
+            dimensionsMap: { FileSystemId: props.fileSystem.fileSystemId },
+            statistic,
+            period,
+            label,
+        });
+        const burstCredits = efsMetric('BurstCreditBalance', 'Minimum', 'Burst credit balance');
+        addAlarm('EfsBurstCreditsAlarm', burstCredits, thresholds.efsBurstCreditBalanceBytes ?? 1e12,
+            ComparisonOperator.LESS_THAN_THRESHOLD, 'The EFS file system is running out of burst credits');
+
+        this.dashboard = new Dashboard(this, 'Dashboard', { dashboardName: props.dashboardName });
+        this.dashboard.addWidgets(
+            new GraphWidget({ title: 'ECS CPU utilization', left: cpuMetrics, width: 8 }),
+            new GraphWidget({ title: 'ECS memory utilization', left: memoryMetrics, width: 8 }),
+            ...(containerInsights ? [new GraphWidget({ title: 'ECS running tasks', left: runningTaskMetrics, width: 8 })] : []),
+        );
+        this.dashboard.addWidgets(
+            new GraphWidget({ title: 'ALB 5xx responses', left: [alb5xx], width: 8 }),
+            new GraphWidget({ title: 'ALB target response time', left: [responseTime], width: 8 }),
+            new GraphWidget({ title: 'ALB target health', left: [healthyHosts, unhealthyHosts], width: 8 }),
+        );
+        this.dashboard.addWidgets(
+            new GraphWidget({
+                title: 'CloudFront error rates',
+                left: [cloudFrontMetric('4xxErrorRate', '4xx error rate'), cloudFront5xx, cloudFrontMetric('TotalErrorRate', 'Total error rate')],
+                width: 8,
+            }),
+            new GraphWidget({ title: 'EFS burst credits', left: [burstCredits], width: 8 }),
+            new GraphWidget({
+                title: 'EFS throughput',
+                left: [efsMetric('MeteredIOBytes', 'Sum', 'Metered I/O bytes')],
+                right: [efsMetric('PercentIOLimit', 'Maximum', 'Percent I/O limit')],
+                width: 8,
+            }),
+        );
+    }
+}
@@ -0,0 +1,79 @@
+import * as path from 'path';
+import { Duration } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { IDistribution } from 'aws-cdk-lib/aws-cloudfront';
+import { ApplicationListenerRule } from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import { PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { IKey } from 'aws-cdk-lib/aws-kms';
+import { Code, Function as LambdaFunction, Runtime } from 'aws-cdk-lib/aws-lambda';
+import { Secret } from 'aws-cdk-lib/aws-secretsmanager';
+
+export const ORIGIN_VERIFY_HEADER_NAME = 'x-unique-header';
+
+export interface OriginVerifyHeaderProps {
+    /**
+     * Key the secret is encrypted with.
+     * @default - the AWS managed key for Secrets Manager
+     */
+    readonly encryptionKey?: IKey;
+}
+
+/**
+ * Secret header that CloudFront adds to every origin request, so the ALB can reject
+ * requests that did not come through our distribution.
+ */
+export class OriginVerifyHeader extends Construct {
+    public readonly headerName = ORIGIN_VERIFY_HEADER_NAME;
+
+    /** Secret holding the header value under the `headerValue` key. */
+    public readonly secret: Secret;
+
+    /** Dynamic reference to the current header value, resolved by CloudFormation at deploy time. */
+    public readonly headerValue: string;
+
+    constructor(scope: Construct, id: string, props: OriginVerifyHeaderProps = {}) {
+        super(scope, id);
+
+        this.secret = new Secret(this, 'Secret', {
+            description: 'Value of the CloudFront origin verification header',
+            encryptionKey: props.encryptionKey,
+            generateSecretString: {
+                secretStringTemplate: JSON.stringify({}),
+                generateStringKey: 'headerValue',
+                excludePunctuation: true,
+                includeSpace: false,
+            },
+        });
+        this.headerValue = this.secret.secretValueFromJson('headerValue').unsafeUnwrap();
+    }
+
+    /**
+     * Rotates the header value on a schedule. The rotation updates the listener rule to accept
+     * both the new and the previous value, then switches the distribution to the new value. Once the
+     * distribution has deployed, the rule only accepts the new value.
+     */
+    public addRotation(automaticallyAfter: Duration, listenerRule: ApplicationListenerRule, distribution: IDistribution) {
+        const rotationFunction = new LambdaFunction(this, 'RotationFunction', {
+            runtime: Runtime.NODEJS_22_X,
+            handler: 'origin-verify.handler',
+            code: Code.fromAsset(path.join(__dirname, 'lambda', 'secret-rotation')),
+            // finishSecret waits for the distribution to deploy
+            timeout: Duration.minutes(15),
+            environment: {
+                HEADER_NAME: this.headerName,
+                LISTENER_RULE_ARN: listenerRule.listenerRuleArn,
+                DISTRIBUTION_ID: distribution.distributionId,
+            },
+        });
+        rotationFunction.addToRolePolicy(new PolicyStatement({
+            actions: ['elasticloadbalancing:ModifyRule'],
+            resources: [listenerRule.listenerRuleArn],
+        }));
+        distribution.grant(rotationFunction, 'cloudfront:GetDistribution', 'cloudfront:GetDistributionConfig', 'cloudfront:UpdateDistribution');
+
+        this.secret.addRotationSchedule('RotationSchedule', {
+            rotationLambda: rotationFunction,
+            automaticallyAfter,
+        });
+    }
+}
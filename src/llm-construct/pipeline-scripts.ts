@@ -0,0 +1,99 @@
+import { CustomResource, Duration } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { IVpc, SubnetSelection } from 'aws-cdk-lib/aws-ec2';
+import { IAccessPoint } from 'aws-cdk-lib/aws-efs';
+import { Code, FileSystem as LambdaFileSystem, Function as LambdaFunction, Runtime } from 'aws-cdk-lib/aws-lambda';
+import { Asset } from 'aws-cdk-lib/aws-s3-assets';
+
+const MOUNT_PATH = '/mnt/pipelines';
+
+// Inline code can use the cfnresponse module provided by CloudFormation
+const HANDLER_CODE = `
+import json
+import os
+import zipfile
+import boto3
+import cfnresponse
+
+# Files the last deployment extracted, so scripts removed from the directory can be removed from EFS
+MANIFEST = '.pipeline_scripts.json'
+
+def handler(event, context):
+    try:
+        if event['RequestType'] != 'Delete':
+            props = event['ResourceProperties']
+            target_dir = os.environ['TARGET_DIR']
+            manifest_path = os.path.join(target_dir, MANIFEST)
+            archive_path = '/tmp/pipeline_scripts.zip'
+            boto3.client('s3').download_file(props['Bucket'], props['Key'], archive_path)
+            with zipfile.ZipFile(archive_path) as archive:
+                names = [name for name in archive.namelist() if not name.endswith('/')]
+                archive.extractall(target_dir)
+            print(f"Extracted {names}")
+            if os.path.exists(manifest_path):
+                with open(manifest_path) as manifest:
+                    removed = sorted(set(json.load(manifest)) - set(names))
+                for name in removed:
+                    path = os.path.join(target_dir, name)
+                    if os.path.isfile(path):
+                        os.remove(path)
+                print(f"Removed {removed}")
+            with open(manifest_path, 'w') as manifest:
+                json.dump(names, manifest)
+        cfnresponse.send(event, context, cfnresponse.SUCCESS, {}, 'PipelineScripts')
+    except Exception as e:
+        print(f"Error deploying pipeline scripts: {e}")
+        cfnresponse.send(event, context, cfnresponse.FAILED, {}, 'PipelineScripts')
+`;
+
+export interface PipelineScriptsDeploymentProps {
+    /** Local directory with the pipeline scripts. */
+    readonly path: string;
+
+    /** Access point the pipelines container mounts at `/app/pipelines`. */
+    readonly accessPoint: IAccessPoint;
+
+    readonly vpc: IVpc;
+
+    /** Subnets for the deployment function; they need a route to S3. */
+    readonly subnets: SubnetSelection;
+}
+
+/**
+ * Copies a local directory of pipeline scripts onto the pipelines EFS access point on every deploy.
+ * Scripts removed from the directory are removed from EFS as well. Other files, such as pipelines
+ * uploaded through the UI, are kept.
+ */
+export class PipelineScriptsDeployment extends Construct {
+    /** Hash of the scripts; changes whenever a script changes. */
+    public readonly assetHash: string;
+
+    constructor(scope: Construct, id: string, props: PipelineScriptsDeploymentProps) {
+        super(scope, id);
+
+        const asset = new Asset(this, 'Asset', { path: props.path });
+        this.assetHash = asset.assetHash;
+
+        const deployFunction = new LambdaFunction(this, 'DeployFunction', {
+            runtime: Runtime.PYTHON_3_12,
+            handler: 'index.handler',
+            code: Code.fromInline(HANDLER_CODE),
+            timeout: Duration.minutes(2),
+            vpc: props.vpc,
+            vpcSubnets: props.subnets,
+            filesystem: LambdaFileSystem.fromEfsAccessPoint(props.accessPoint, MOUNT_PATH),
+            environment: {
+                TARGET_DIR: MOUNT_PATH,
+            },
+        });
+        asset.grantRead(deployFunction);
+
+        new CustomResource(this, 'Resource', {
+            serviceToken: deployFunction.functionArn,
+            properties: {
+                Bucket: asset.s3BucketName,
+                Key: asset.s3ObjectKey,
+            },
+        });
+    }
+}
@@ -0,0 +1,134 @@
+import { Token } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { ISecurityGroup, SubnetSelection } from 'aws-cdk-lib/aws-ec2';
+import { IApplicationLoadBalancer } from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import { CfnIPSet, CfnWebACL, CfnWebACLAssociation } from 'aws-cdk-lib/aws-wafv2';
+
+/**
+ * How the pipelines API, which runs arbitrary uploaded Python, is exposed outside the task.
+ */
+export enum PipelinesEndpointMode {
+    /** No external endpoint; only Open WebUI talks to pipelines. */
+    NONE = 'NONE',
+    /** Internal ALB reachable only from `allowedCidrs` and `allowedSecurityGroups`. */
+    INTERNAL = 'INTERNAL',
+    /** Internet-facing ALB behind a WAF web ACL that only admits `allowedCidrs`. */
+    PUBLIC_WITH_WAF = 'PUBLIC_WITH_WAF',
+    /** Internet-facing ALB open to any IPv4 address, protected only by the pipelines API key. */
+    PUBLIC = 'PUBLIC',
+}
+
+export interface PipelinesEndpointProps {
+    /**
+     * Endpoint mode. Every mode other than `NONE` needs a certificate.
+     * @default PipelinesEndpointMode.NONE
+     */
+    readonly mode?: PipelinesEndpointMode;
+
+    /**
+     * CIDR ranges allowed to reach the endpoint. Required for `PUBLIC_WITH_WAF`.
+     * @default - none
+     */
+    readonly allowedCidrs?: string[];
+
+    /**
+     * Security groups allowed to reach an `INTERNAL` endpoint.
+     * @default - none
+     */
+    readonly allowedSecurityGroups?: ISecurityGroup[];
+
+    /**
+     * Subnets for an `INTERNAL` load balancer.
+     * @default - private subnets
+     */
+    readonly subnets?: SubnetSelection;
+
+    /**
+     * Requests per 5 minutes a single IP may send before the WAF blocks it (`PUBLIC_WITH_WAF` only),
+     * an integer from 10 to 2,000,000,000.
+     * @default 1000
+     */
+    readonly rateLimit?: number;
+}
+
+export interface PipelinesWebAclProps {
+    readonly loadBalancer: IApplicationLoadBalancer;
+
+    /** CIDR ranges the web ACL admits; everything else is blocked. */
+    readonly allowedCidrs: string[];
+
+    /** Requests per 5 minutes a single IP may send. */
+    readonly rateLimit: number;
+}
+
+/**
+ * Regional WAF web ACL for the pipelines ALB: AWS managed protections, a per-IP rate limit,
+ * and an IP allow-list with a default block action.
+ */
+export class PipelinesWebAcl extends Construct {
+    public readonly webAcl: CfnWebACL;
+
+    constructor(scope: Construct, id: string, props: PipelinesWebAclProps) {
+        super(scope, id);
+
+        if (!Token.isUnresolved(props.rateLimit)
+            && (!Number.isInteger(props.rateLimit) || props.rateLimit < 10 || props.rateLimit > 2_000_000_000)) {
+            throw new Error(`pipelinesEndpoint.rateLimit must be an integer from 10 to 2000000000, got ${props.rateLimit}`);
+        }
+        const ipv4 = props.allowedCidrs.filter((cidr) => !cidr.includes(':'));
+        const ipv6 = props.allowedCidrs.filter((cidr) => cidr.includes(':'));
+        const ipSetStatements: CfnWebACL.StatementProperty[] = [];
+        if (ipv4.length > 0) {
+            const ipSet = new CfnIPSet(this, 'AllowedIpv4', { scope: 'REGIONAL', ipAddressVersion: 'IPV4', addresses: ipv4 });
+            ipSetStatements.push({ ipSetReferenceStatement: { arn: ipSet.attrArn } });
+        }
+        if (ipv6.length > 0) {
+            const ipSet = new CfnIPSet(this, 'AllowedIpv6', { scope: 'REGIONAL', ipAddressVersion: 'IPV6', addresses: ipv6 });
+            ipSetStatements.push({ ipSetReferenceStatement: { arn: ipSet.attrArn } });
+        }
+
+        const visibilityConfig = (metricName: string): CfnWebACL.VisibilityConfigProperty => ({
+            cloudWatchMetricsEnabled: true,
+            metricName,
+            sampledRequestsEnabled: true,
+        });
+        const managedRuleGroup = (name: string, priority: number): CfnWebACL.RuleProperty => ({
+            name,
+            priority,
+            overrideAction: { none: {} },
+            statement: { managedRuleGroupStatement: { vendorName: 'AWS', name } },
+            visibilityConfig: visibilityConfig(name),
+        });
+
+        this.webAcl = new CfnWebACL(this, 'WebAcl', {
+            scope: 'REGIONAL',
+            defaultAction: { block: {} },
+            visibilityConfig: visibilityConfig('PipelinesWebAcl'),
+            rules: [
+                managedRuleGroup('AWSManagedRulesAmazonIpReputationList', 0),
+                managedRuleGroup('AWSManagedRulesKnownBadInputsRuleSet', 1),
+                {
+                    name: 'RateLimitPerIp',
+                    priority: 2,
+                    action: { block: {} },
+                    statement: { rateBasedStatement: { limit: props.rateLimit, aggregateKeyType: 'IP' } },
+                    visibilityConfig: visibilityConfig('RateLimitPerIp'),
+                },
+                {
+                    name: 'AllowListedIps',
+                    priority: 3,
+                    action: { allow: {} },
+                    statement: ipSetStatements.length > 1
+                        ? { orStatement: { statements: ipSetStatements } }
+                        : ipSetStatements[0],
+                    visibilityConfig: visibilityConfig('AllowListedIps'),
+                },
+            ],
+        });
+
+        new CfnWebACLAssociation(this, 'Association', {
+            resourceArn: props.loadBalancer.loadBalancerArn,
+            webAclArn: this.webAcl.attrArn,
+        });
+    }
+}
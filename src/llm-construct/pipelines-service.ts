@@ -0,0 +1,60 @@
+/**
+ * Client alias Open WebUI uses to reach a separate pipelines service through ECS Service Connect.
+ */
+export const PIPELINES_SERVICE_CONNECT_NAME = 'pipelines';
+
+export interface PipelinesServiceProps {
+    /**
+     * CPU units for the pipelines task.
+     * @default 1024
+     */
+    readonly cpu?: number;
+
+    /**
+     * Memory (MiB) for the pipelines task. Must be a valid size for `cpu`.
+     * @default 2048
+     */
+    readonly memoryLimitMiB?: number;
+
+    /**
+     * Number of pipelines tasks to run, and the autoscaling minimum.
+     * @default 1
+     */
+    readonly desiredCount?: number;
+
+    /**
+     * Scale out on CPU up to this many tasks.
+     * @default - no autoscaling
+     */
+    readonly maxCapacity?: number;
+
+    /**
+     * Average CPU utilization the autoscaling policy keeps the service at.
+     * @default 70
+     */
+    readonly targetCpuUtilizationPercent?: number;
+
+    /**
+     * Lower limit on running tasks during a deployment, as a percentage of `desiredCount`.
+     * @default 100
+     */
+    readonly minHealthyPercent?: number;
+
+    /**
+     * Upper limit on running tasks during a deployment, as a percentage of `desiredCount`.
+     * @default 200
+     */
+    readonly maxHealthyPercent?: number;
+
+    /**
+     * Roll back deployments whose tasks keep failing, e.g. because a pipeline crashes on import.
+     * @default true
+     */
+    readonly circuitBreakerRollback?: boolean;
+
+    /**
+     * Name of the Cloud Map namespace Service Connect registers the pipelines service in.
+     * @default 'openwebui.internal'
+     */
+    readonly namespaceName?: string;
+}
@@ -0,0 +1,136 @@
+import { Secret as ECSSecret } from 'aws-cdk-lib/aws-ecs';
+
+const ENVIRONMENT_VARIABLE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export enum OpenWebUIUserRole {
+    /** New users wait for an admin to activate them. */
+    PENDING = 'pending',
+    USER = 'user',
+    ADMIN = 'admin',
+}
+
+export enum RagEmbeddingEngine {
+    /** SentenceTransformers inside the Open WebUI container. */
+    SENTENCE_TRANSFORMERS = '',
+    OLLAMA = 'ollama',
+    OPENAI = 'openai',
+}
+
+/**
+ * Open WebUI settings, passed to the `openwebui` container as environment variables. Unset settings
+ * keep Open WebUI's defaults.
+ */
+export interface OpenWebUISettings {
+    /** `WEBUI_NAME`, shown in the browser title and the sidebar. */
+    readonly name?: string;
+
+    /** `ENABLE_SIGNUP`. Set to false by `authentication`. */
+    readonly enableSignup?: boolean;
+
+    /** `ENABLE_LOGIN_FORM`. Set to false by `authentication`, which users then sign in through. */
+    readonly enableLoginForm?: boolean;
+
+    /** `DEFAULT_USER_ROLE` of users who sign up. */
+    readonly defaultUserRole?: OpenWebUIUserRole;
+
+    /** `DEFAULT_MODELS`, the models a new chat starts with. */
+    readonly defaultModels?: string[];
+
+    /** `ENABLE_COMMUNITY_SHARING` of chats to openwebui.com. */
+    readonly enableCommunitySharing?: boolean;
+
+    /** `ENABLE_OLLAMA_API`; the construct runs no Ollama server. */
+    readonly enableOllama?: boolean;
+
+    /** `RAG_EMBEDDING_ENGINE` for documents uploaded to Open WebUI. */
+    readonly ragEmbeddingEngine?: RagEmbeddingEngine;
+
+    /** `RAG_EMBEDDING_MODEL`. */
+    readonly ragEmbeddingModel?: string;
+
+    /** `RAG_OPENAI_API_BASE_URL` of the `OPENAI` embedding engine. */
+    readonly ragOpenAIApiBaseUrl?: string;
+
+    /** `RAG_OPENAI_API_KEY` of the `OPENAI` embedding engine. */
+    readonly ragOpenAIApiKey?: ECSSecret;
+
+    /**
+     * `ENABLE_PERSISTENT_CONFIG`. Open WebUI stores most settings in its database on first start and
+     * ignores the environment afterwards. Turn this off to apply the settings on every start; changes
+     * made in the admin UI are then lost when a task restarts.
+     * @default true
+     */
+    readonly persistentConfig?: boolean;
+
+    /**
+     * Further environment variables, for settings without a prop.
+     * @default - none
+     */
+    readonly environment?: { [name: string]: string };
+
+    /**
+     * Further sensitive settings, e.g. `OPENAI_API_KEY`, read from Secrets Manager or Parameter Store.
+     * @default - none
+     */
+    readonly secrets?: { [name: string]: ECSSecret };
+}
+
+/** Environment variables for `settings`. */
+export function openWebUIEnvironment(settings: OpenWebUISettings = {}): { [name: string]: string } {
+    const environment: { [name: string]: string | undefined } = {
+        WEBUI_NAME: settings.name,
+        ENABLE_SIGNUP: booleanSetting(settings.enableSignup),
+        ENABLE_LOGIN_FORM: booleanSetting(settings.enableLoginForm),
+        DEFAULT_USER_ROLE: settings.defaultUserRole,
+        DEFAULT_MODELS: settings.defaultModels?.join(','),
+        ENABLE_COMMUNITY_SHARING: booleanSetting(settings.enableCommunitySharing),
+        ENABLE_OLLAMA_API: booleanSetting(settings.enableOllama),
+        RAG_EMBEDDING_ENGINE: settings.ragEmbeddingEngine,
+        RAG_EMBEDDING_MODEL: settings.ragEmbeddingModel,
+        RAG_OPENAI_API_BASE_URL: settings.ragOpenAIApiBaseUrl,
+        ENABLE_PERSISTENT_CONFIG: booleanSetting(settings.persistentConfig),
+    };
+    for (const name of Object.keys(settings.environment ?? {})) {
+        if (environment[name] !== undefined) {
+            throw new Error(`settings.environment.${name} is already set by a settings prop`);
+        }
+    }
+    return Object.fromEntries(Object.entries({ ...environment, ...settings.environment })
+        .filter((entry): entry is [string, string] => entry[1] !== undefined));
+}
+
+/** Container secrets for `settings`. */
+export function openWebUISecrets(settings: OpenWebUISettings = {}): { [name: string]: ECSSecret } {
+    if (settings.ragOpenAIApiKey && settings.secrets?.RAG_OPENAI_API_KEY) {
+        throw new Error('settings.secrets.RAG_OPENAI_API_KEY is already set by ragOpenAIApiKey');
+    }
+    return {
+        ...(settings.ragOpenAIApiKey ? { RAG_OPENAI_API_KEY: settings.ragOpenAIApiKey } : {}),
+        ...settings.secrets,
+    };
+}
+
+/**
+ * Reject settings the construct sets itself, names that are not environment variables and names
+ * that are both a variable and a secret.
+ */
+export function validateSettings(settings: OpenWebUISettings, managedNames: string[]) {
+    const environmentNames = Object.keys(openWebUIEnvironment(settings));
+    const secretNames = Object.keys(openWebUISecrets(settings));
+    for (const name of [...environmentNames, ...secretNames]) {
+        if (!ENVIRONMENT_VARIABLE_PATTERN.test(name)) {
+            throw new Error(`settings: '${name}' is not a valid environment variable name`);
+        }
+        if (managedNames.includes(name)) {
+            throw new Error(`settings: ${name} is set by the construct`);
+        }
+    }
+    const duplicate = environmentNames.find((name) => secretNames.includes(name));
+    if (duplicate) {
+        throw new Error(`settings: ${duplicate} is both an environment variable and a secret`);
+    }
+}
+
+function booleanSetting(value?: boolean): string | undefined {
+    return value === undefined ? undefined : String(value);
+}
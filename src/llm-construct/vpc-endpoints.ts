@@ -0,0 +1,81 @@
+import { Stack, Token } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import {
+    GatewayVpcEndpoint,
+    GatewayVpcEndpointAwsService,
+    IConnectable,
+    InterfaceVpcEndpoint,
+    InterfaceVpcEndpointAwsService,
+    IVpc,
+    Port,
+    SecurityGroup,
+    SubnetSelection,
+} from 'aws-cdk-lib/aws-ec2';
+
+export interface OpenWebUIVpcEndpointsProps {
+    readonly vpc: IVpc;
+
+    /** Subnets the endpoints are placed in; normally the task subnets. */
+    readonly subnets: SubnetSelection;
+
+    /**
+     * Regions the tasks call Bedrock in. Endpoints only serve the VPC's region, so the Bedrock
+     * endpoints are only created when it is one of them; other regions are reached through NAT.
+     * @default - the Bedrock endpoints are always created
+     */
+    readonly bedrockRegions?: string[];
+}
+
+/**
+ * Interface and gateway endpoints that let Fargate tasks in private subnets reach
+ * Bedrock, Secrets Manager, ECR, CloudWatch Logs, STS and S3 without a public IP.
+ */
+export class OpenWebUIVpcEndpoints extends Construct {
+    /** Security group attached to every interface endpoint. */
+    public readonly securityGroup: SecurityGroup;
+
+    constructor(scope: Construct, id: string, props: OpenWebUIVpcEndpointsProps) {
+        super(scope, id);
+
+        this.securityGroup = new SecurityGroup(this, 'EndpointSG', {
+            vpc: props.vpc,
+            allowAllOutbound: false,
+        });
+
+        const region = Stack.of(this).region;
+        const bedrockInRegion = !props.bedrockRegions || Token.isUnresolved(region) || props.bedrockRegions.includes(region);
+        const interfaceServices: { [id: string]: InterfaceVpcEndpointAwsService } = {
+            ...(bedrockInRegion ? {
+                Bedrock: InterfaceVpcEndpointAwsService.BEDROCK,
+                BedrockRuntime: InterfaceVpcEndpointAwsService.BEDROCK_RUNTIME,
+            } : {}),
+            SecretsManager: InterfaceVpcEndpointAwsService.SECRETS_MANAGER,
+            EcrApi: InterfaceVpcEndpointAwsService.ECR,
+            EcrDocker: InterfaceVpcEndpointAwsService.ECR_DOCKER,
+            Logs: InterfaceVpcEndpointAwsService.CLOUDWATCH_LOGS,
+            Sts: InterfaceVpcEndpointAwsService.STS,
+        };
+        for (const [name, service] of Object.entries(interfaceServices)) {
+            new InterfaceVpcEndpoint(this, `${name}Endpoint`, {
+                vpc: props.vpc,
+                service,
+                subnets: { ...props.subnets, onePerAz: true },
+                securityGroups: [this.securityGroup],
+                privateDnsEnabled: true,
+                open: false,
+            });
+        }
+
+        // ECR stores image layers in S3
+        new GatewayVpcEndpoint(this, 'S3Endpoint', {
+            vpc: props.vpc,
+            service: GatewayVpcEndpointAwsService.S3,
+            subnets: [props.subnets],
+        });
+    }
+
+    /** Allows `client` to reach the interface endpoints over HTTPS. */
+    public allowFrom(client: IConnectable) {
+        this.securityGroup.connections.allowFrom(client, Port.tcp(443));
+    }
+}
@@ -1,23 +1,19 @@
-import { App, Stack, StackProps } from 'aws-cdk-lib';
-import { Construct } from 'constructs';
-import { OpenWebUIEcsConstruct } from './llm-construct';
+import { App } from 'aws-cdk-lib';
+import { validateAppConfig } from './config';
+import { APP_CONFIG } from './environments';
+import { OpenWebUIPipelineStack } from './pipeline';
+import { OpenWebUIStage } from './stage';
 
-export class OpenWebUIStack extends Stack {
-  constructor(scope: Construct, id: string, props: StackProps = {}) {
-    super(scope, id, props);
-
-    new OpenWebUIEcsConstruct(this, 'OpenWebUIEcsConstruct');
-  }
-}
-
-// for development, use account/region from cdk cli
-const devEnv = {
-  account: process.env.CDK_DEFAULT_ACCOUNT,
-  region: process.env.CDK_DEFAULT_REGION,
-};
+validateAppConfig(APP_CONFIG);
 
 const app = new App();
 
-new OpenWebUIStack(app, 'OpenWebUIStack', { env: devEnv });
+if (APP_CONFIG.pipeline) {
+  new OpenWebUIPipelineStack(app, 'OpenWebUIPipeline', { config: APP_CONFIG });
+} else {
+  for (const environment of APP_CONFIG.environments) {
+    new OpenWebUIStage(app, environment.name, { environment });
+  }
+}
 
-app.synth();
\ No newline at end of file
+app.synth();
@@ -0,0 +1,45 @@
+import { Stack, StackProps } from 'aws-cdk-lib';
+import { CodePipeline, CodePipelineSource, ManualApprovalStep, ShellStep } from 'aws-cdk-lib/pipelines';
+import { Construct } from 'constructs';
+import { AppConfig } from './config';
+import { OpenWebUIStage } from './stage';
+
+export interface OpenWebUIPipelineStackProps extends StackProps {
+  /** App configuration with a `pipeline`. */
+  readonly config: AppConfig;
+}
+
+/**
+ * Self-mutating CodePipeline deploying the environments in order, with a manual approval before prod.
+ */
+export class OpenWebUIPipelineStack extends Stack {
+  public readonly pipeline: CodePipeline;
+
+  constructor(scope: Construct, id: string, props: OpenWebUIPipelineStackProps) {
+    const pipelineConfig = props.config.pipeline;
+    if (!pipelineConfig) {
+      throw new Error('OpenWebUIPipelineStack needs config.pipeline');
+    }
+    super(scope, id, {
+      ...props,
+      env: props.env ?? { account: pipelineConfig.account, region: pipelineConfig.region },
+    });
+
+    this.pipeline = new CodePipeline(this, 'Pipeline', {
+      synth: new ShellStep('Synth', {
+        input: CodePipelineSource.connection(pipelineConfig.repository, pipelineConfig.branch ?? 'main', {
+          connectionArn: pipelineConfig.connectionArn,
+        }),
+        commands: ['npm ci', 'npx cdk synth'],
+      }),
+      // Environments in other accounts need a KMS key on the artifact bucket
+      crossAccountKeys: props.config.environments.some((environment) => environment.account !== pipelineConfig.account),
+    });
+
+    for (const environment of props.config.environments) {
+      this.pipeline.addStage(new OpenWebUIStage(this, environment.name, { environment }), {
+        pre: environment.name === 'prod' ? [new ManualApprovalStep('PromoteToProd')] : undefined,
+      });
+    }
+  }
+}
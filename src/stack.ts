@@ -0,0 +1,74 @@
+import { Stack, StackProps } from 'aws-cdk-lib';
+import { Certificate } from 'aws-cdk-lib/aws-certificatemanager';
+import { SecurityGroup } from 'aws-cdk-lib/aws-ec2';
+import { HostedZone } from 'aws-cdk-lib/aws-route53';
+import { Construct } from 'constructs';
+import { EnvironmentConfig } from './config';
+import { OpenWebUIEcsConstruct, OpenWebUIEcsConstructProps } from './llm-construct';
+
+export interface OpenWebUIStackProps extends StackProps {
+  /**
+   * Settings passed through to the Open WebUI construct.
+   * @default - construct defaults
+   */
+  readonly openWebUI?: OpenWebUIEcsConstructProps;
+
+  /**
+   * Environment whose settings are applied on top of `openWebUI`.
+   * @default - none
+   */
+  readonly environment?: EnvironmentConfig;
+
+  /**
+   * Stack in us-east-1 for the CloudFront certificate of the environment's domain.
+   * @default - none; needed when the environment has a domain outside us-east-1
+   */
+  readonly cloudFrontCertificateStack?: Stack;
+}
+
+export class OpenWebUIStack extends Stack {
+  constructor(scope: Construct, id: string, props: OpenWebUIStackProps = {}) {
+    super(scope, id, props);
+
+    const openWebUI = props.environment
+      ? this.environmentProps(props.environment, props.openWebUI, props.cloudFrontCertificateStack)
+      : props.openWebUI;
+    new OpenWebUIEcsConstruct(this, 'OpenWebUIEcsConstruct', openWebUI);
+  }
+
+  private environmentProps(
+    environment: EnvironmentConfig,
+    base: OpenWebUIEcsConstructProps = {},
+    cloudFrontCertificateStack?: Stack,
+  ): OpenWebUIEcsConstructProps {
+    const props = { ...base, ...environment.openWebUI };
+    return {
+      ...props,
+      cpu: environment.cpu ?? props.cpu,
+      memoryLimitMiB: environment.memoryLimitMiB ?? props.memoryLimitMiB,
+      desiredCount: environment.desiredCount ?? props.desiredCount,
+      autoScaling: environment.maxCapacity !== undefined
+        ? { ...props.autoScaling, maxCapacity: environment.maxCapacity }
+        : props.autoScaling,
+      certificate: environment.certificateArn
+        ? Certificate.fromCertificateArn(this, 'Certificate', environment.certificateArn)
+        : props.certificate,
+      domain: environment.domain
+        ? {
+          ...props.domain,
+          domainName: environment.domain.domainName,
+          pipelinesDomainName: environment.domain.pipelinesDomainName,
+          hostedZone: HostedZone.fromHostedZoneAttributes(this, 'HostedZone', {
+            hostedZoneId: environment.domain.hostedZoneId,
+            zoneName: environment.domain.hostedZoneName,
+          }),
+          cloudFrontCertificateStack: cloudFrontCertificateStack ?? props.domain?.cloudFrontCertificateStack,
+        }
+        : props.domain,
+      efsFileSystemId: environment.efs?.fileSystemId ?? props.efsFileSystemId,
+      efsSecurityGroup: environment.efs
+        ? SecurityGroup.fromSecurityGroupId(this, 'EfsSecurityGroup', environment.efs.securityGroupId)
+        : props.efsSecurityGroup,
+    };
+  }
+}
@@ -0,0 +1,37 @@
+import { Stack, Stage, StageProps } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { EnvironmentConfig } from './config';
+import { OpenWebUIStack } from './stack';
+
+export interface OpenWebUIStageProps extends StageProps {
+  readonly environment: EnvironmentConfig;
+}
+
+/**
+ * One environment of the app. Stacks are named `<environment>-OpenWebUIStack`, whether the stage
+ * is deployed with `cdk deploy` or from the pipeline. An environment with a domain outside us-east-1
+ * also gets a `<environment>-CloudFrontCertificateStack` there for the CloudFront certificate.
+ */
+export class OpenWebUIStage extends Stage {
+  public readonly stack: OpenWebUIStack;
+
+  constructor(scope: Construct, id: string, props: OpenWebUIStageProps) {
+    super(scope, id, {
+      ...props,
+      env: { account: props.environment.account, region: props.environment.region },
+    });
+
+    const certificateStack = props.environment.domain && props.environment.region !== 'us-east-1'
+      ? new Stack(this, 'CloudFrontCertificateStack', {
+        env: { account: props.environment.account, region: 'us-east-1' },
+        crossRegionReferences: true,
+      })
+      : undefined;
+
+    this.stack = new OpenWebUIStack(this, 'OpenWebUIStack', {
+      environment: props.environment,
+      cloudFrontCertificateStack: certificateStack,
+      crossRegionReferences: certificateStack !== undefined,
+    });
+  }
+}
@@ -1,6 +1,43 @@
-import { App, Stack } from 'aws-cdk-lib';
-import { Template } from 'aws-cdk-lib/assertions';
-import { OpenWebUIEcsConstruct } from '../src/llm-construct/index';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { App, Duration, RemovalPolicy, SecretValue, Stack } from 'aws-cdk-lib';
+import { Annotations, Match, Template } from 'aws-cdk-lib/assertions';
+import { Schedule } from 'aws-cdk-lib/aws-applicationautoscaling';
+import { Certificate } from 'aws-cdk-lib/aws-certificatemanager';
+import { SecurityGroup, SubnetType, Vpc } from 'aws-cdk-lib/aws-ec2';
+import { Cluster, Secret as ECSSecret } from 'aws-cdk-lib/aws-ecs';
+import { RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { HostedZone } from 'aws-cdk-lib/aws-route53';
+import { Secret } from 'aws-cdk-lib/aws-secretsmanager';
+import { Topic } from 'aws-cdk-lib/aws-sns';
+import {
+    BedrockAccessProps,
+    BedrockActionGroup,
+    GuardrailFilterStrength,
+    GuardrailPiiAction,
+    KnowledgeBaseVectorStore,
+    NetworkingMode,
+    OpenWebUIAuthenticationProps,
+    OpenWebUIEcsConstruct,
+    OpenWebUIUserRole,
+    PipelinesEndpointMode,
+    PipelinesEndpointProps,
+    RagEmbeddingEngine,
+} from '../src/llm-construct/index';
+
+const openWebUIDigest = `sha256:${'a'.repeat(64)}`;
+const pipelinesDigest = `sha256:${'b'.repeat(64)}`;
+
+// CloudFormation dynamic reference to the generated origin header value
+const originHeaderValue = {
+    'Fn::Join': ['', [
+        '{{resolve:secretsmanager:',
+        { Ref: Match.stringLikeRegexp('OriginVerifyHeaderSecret') },
+        ':SecretString:headerValue::}}',
+    ]],
+};
 
 describe('OpenWebUIEcsConstruct', () => {
     let app: App;
@@ -22,7 +59,7 @@ describe('OpenWebUIEcsConstruct', () => {
                     Field: "http-header",
                     HttpHeaderConfig: {
                         HttpHeaderName: "x-unique-header",
-                        Values: ["RUDY-LLM-PRIVATE-LINK"]
+                        Values: [originHeaderValue]
                     }
                 }
             ],
@@ -38,7 +75,7 @@ describe('OpenWebUIEcsConstruct', () => {
                         OriginCustomHeaders: [
                             {
                                 HeaderName: 'x-unique-header',
-                                HeaderValue: 'RUDY-LLM-PRIVATE-LINK'
+                                HeaderValue: originHeaderValue
                             }
                         ]
                     }
@@ -47,6 +84,39 @@ describe('OpenWebUIEcsConstruct', () => {
         });
     });
 
+    test('Origin header value is generated in Secrets Manager', () => {
+        template.hasResourceProperties('AWS::SecretsManager::Secret', {
+            GenerateSecretString: Match.objectLike({
+                GenerateStringKey: 'headerValue',
+            }),
+        });
+    });
+
+    test('ALB Listener rejects requests without the origin header', () => {
+        template.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', {
+            DefaultActions: [
+                {
+                    Type: 'fixed-response',
+                    FixedResponseConfig: Match.objectLike({ StatusCode: '403' }),
+                }
+            ],
+        });
+    });
+
+    test('ALB only admits CloudFront', () => {
+        const albSecurityGroups = template.findResources('AWS::EC2::SecurityGroup', {
+            Properties: { GroupDescription: Match.stringLikeRegexp('OpenWebUIAlbSG') },
+        });
+        for (const securityGroup of Object.values(albSecurityGroups)) {
+            expect(securityGroup.Properties.SecurityGroupIngress).toBeUndefined();
+        }
+        template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+            GroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('OpenWebUIAlbSG'), 'GroupId'] },
+            FromPort: 80,
+            SourcePrefixListId: Match.anyValue(),
+        });
+    });
+
     test('VPC and ECS Cluster are created', () => {
         // Check that one VPC is created.
         template.resourceCountIs('AWS::EC2::VPC', 1);
@@ -84,7 +154,7 @@ describe('OpenWebUIEcsConstruct', () => {
         expect(domainOutputKey).toBeDefined();
 
         // Confirm the output uses the expected description
-        expect(outputs[domainOutputKey!].Description).toBe('The CloudFront distribution domain name');
+        expect(outputs[domainOutputKey!].Description).toBe('The CloudFront distribution domain name for Open WebUI.');
     });
 });
 
@@ -102,24 +172,24 @@ describe('OpenWebUIEcsStack Additional Tests', () => {
     test('ECS Task Definition container definitions are configured correctly', () => {
         template.hasResourceProperties('AWS::ECS::TaskDefinition', {
             ContainerDefinitions: [
-                {
+                Match.objectLike({
                     Name: 'openwebui',
-                    Environment: [
+                    Environment: Match.arrayWith([
                         { Name: 'DATA_DIR', Value: '/app/backend/data' }
-                    ],
+                    ]),
                     PortMappings: [
-                        { ContainerPort: 8080 }
+                        Match.objectLike({ ContainerPort: 8080 })
                     ],
-                    MountPoints: [{
+                    MountPoints: [Match.objectLike({
                         ContainerPath: '/app/backend/data'
-                    }]
-                },
-                {
+                    })]
+                }),
+                Match.objectLike({
                     Name: 'pipelines',
-                    MountPoints: [{
+                    MountPoints: [Match.objectLike({
                         ContainerPath: '/app/pipelines'
-                    }]
-                }
+                    })]
+                })
             ]
         });
     });
@@ -142,3 +212,2065 @@ describe('OpenWebUIEcsStack Additional Tests', () => {
         });
     });
 });
+
+describe('OpenWebUIEcsConstruct props', () => {
+    test('Task size, image tags and desired count can be overridden', () => {
+        const stack = new Stack(new App(), 'PropsTestStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            cpu: 1024,
+            memoryLimitMiB: 4096,
+            openWebUIImageTag: 'v0.5.20',
+            pipelinesImageTag: 'v0.5.0',
+            desiredCount: 2,
+            maxAzs: 3,
+            efsRemovalPolicy: RemovalPolicy.RETAIN,
+        });
+        const template = Template.fromStack(stack);
+
+        template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+            Cpu: '1024',
+            Memory: '4096',
+            ContainerDefinitions: [
+                Match.objectLike({ Name: 'openwebui', Image: 'ghcr.io/open-webui/open-webui:v0.5.20' }),
+                Match.objectLike({ Name: 'pipelines', Image: 'ghcr.io/open-webui/pipelines:v0.5.0' }),
+            ],
+        });
+        template.hasResourceProperties('AWS::ECS::Service', {
+            DesiredCount: 2
+        });
+        template.hasResource('AWS::EFS::FileSystem', {
+            DeletionPolicy: 'Retain'
+        });
+    });
+
+    test('Invalid Fargate task size is rejected', () => {
+        const stack = new Stack(new App(), 'InvalidSizeStack');
+        expect(() => new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            cpu: 1024,
+            memoryLimitMiB: 1024,
+        })).toThrow(/memoryLimitMiB for cpu 1024/);
+    });
+
+    test('Invalid image tag is rejected', () => {
+        const stack = new Stack(new App(), 'InvalidTagStack');
+        expect(() => new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            openWebUIImageTag: 'not a tag',
+        })).toThrow(/openWebUIImageTag/);
+    });
+
+    test('Image digests pin the images', () => {
+        const stack = new Stack(new App(), 'DigestStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            openWebUIImageTag: 'v0.5.20',
+            openWebUIImageDigest: openWebUIDigest,
+            pipelinesImageDigest: pipelinesDigest,
+        });
+
+        Template.fromStack(stack).hasResourceProperties('AWS::ECS::TaskDefinition', {
+            ContainerDefinitions: [
+                Match.objectLike({ Name: 'openwebui', Image: `ghcr.io/open-webui/open-webui@${openWebUIDigest}` }),
+                Match.objectLike({ Name: 'pipelines', Image: `ghcr.io/open-webui/pipelines@${pipelinesDigest}` }),
+            ],
+        });
+        expect(() => new OpenWebUIEcsConstruct(new Stack(new App(), 'InvalidDigestStack'), 'OpenWebUIEcsConstruct', {
+            pipelinesImageDigest: 'sha256:abc',
+        })).toThrow(/pipelinesImageDigest/);
+    });
+
+    test('A single availability zone is rejected', () => {
+        const stack = new Stack(new App(), 'InvalidAzStack');
+        expect(() => new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            maxAzs: 1,
+        })).toThrow(/maxAzs/);
+    });
+});
+
+describe('OpenWebUIEcsConstruct with an existing VPC and cluster', () => {
+    const importVpc = (stack: Stack) => Vpc.fromVpcAttributes(stack, 'SharedVpc', {
+        vpcId: 'vpc-0a1b2c3d4e5f60000',
+        vpcCidrBlock: '10.10.0.0/16',
+        availabilityZones: ['us-east-1a', 'us-east-1b'],
+        publicSubnetIds: ['subnet-0a1b2c3d4e5f60001', 'subnet-0a1b2c3d4e5f60002'],
+        privateSubnetIds: ['subnet-0a1b2c3d4e5f60003', 'subnet-0a1b2c3d4e5f60004'],
+    });
+
+    test('No VPC resources are created when a VPC is passed', () => {
+        const stack = new Stack(new App(), 'SharedVpcStack');
+        const vpc = importVpc(stack);
+        const construct = new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', { vpc });
+        const template = Template.fromStack(stack);
+
+        expect(construct.vpc).toBe(vpc);
+        template.resourceCountIs('AWS::EC2::VPC', 0);
+        template.resourceCountIs('AWS::EC2::Subnet', 0);
+        template.resourceCountIs('AWS::EC2::NatGateway', 0);
+        template.resourceCountIs('AWS::ECS::Cluster', 1);
+    });
+
+    test('Existing cluster is used and its VPC is inherited', () => {
+        const stack = new Stack(new App(), 'SharedClusterStack');
+        const vpc = importVpc(stack);
+        const cluster = Cluster.fromClusterAttributes(stack, 'SharedCluster', {
+            clusterName: 'shared-cluster',
+            vpc,
+        });
+        const construct = new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', { cluster });
+        const template = Template.fromStack(stack);
+
+        expect(construct.vpc).toBe(vpc);
+        template.resourceCountIs('AWS::EC2::VPC', 0);
+        template.resourceCountIs('AWS::ECS::Cluster', 0);
+        template.hasResourceProperties('AWS::ECS::Service', {
+            Cluster: 'shared-cluster'
+        });
+    });
+
+    test('A cluster in another VPC is rejected', () => {
+        const stack = new Stack(new App(), 'MismatchedClusterStack');
+        const cluster = Cluster.fromClusterAttributes(stack, 'SharedCluster', {
+            clusterName: 'shared-cluster',
+            vpc: Vpc.fromVpcAttributes(stack, 'OtherVpc', {
+                vpcId: 'vpc-0f0f0f0f0f0f0f0f0',
+                availabilityZones: ['us-east-1a'],
+                publicSubnetIds: ['subnet-0f0f0f0f0f0f0f0f1'],
+            }),
+        });
+        expect(() => new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', { vpc: importVpc(stack), cluster }))
+            .toThrow(/cluster must belong to vpc/);
+    });
+
+    test('A VPC without private subnets with egress needs pipelineScriptsSubnets', () => {
+        const importPublicIsolatedVpc = (stack: Stack) => Vpc.fromVpcAttributes(stack, 'PublicIsolatedVpc', {
+            vpcId: 'vpc-0a1b2c3d4e5f60000',
+            vpcCidrBlock: '10.10.0.0/16',
+            availabilityZones: ['us-east-1a', 'us-east-1b'],
+            publicSubnetIds: ['subnet-0a1b2c3d4e5f60001', 'subnet-0a1b2c3d4e5f60002'],
+            isolatedSubnetIds: ['subnet-0a1b2c3d4e5f60005', 'subnet-0a1b2c3d4e5f60006'],
+        });
+        const stack = new Stack(new App(), 'PublicIsolatedVpcStack');
+        expect(() => new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            vpc: importPublicIsolatedVpc(stack),
+        })).toThrow(/no private subnets with egress for the pipeline scripts deployment/);
+
+        const isolatedStack = new Stack(new App(), 'IsolatedScriptsStack');
+        new OpenWebUIEcsConstruct(isolatedStack, 'OpenWebUIEcsConstruct', {
+            vpc: importPublicIsolatedVpc(isolatedStack),
+            pipelineScriptsSubnets: { subnetType: SubnetType.PRIVATE_ISOLATED },
+        });
+        Template.fromStack(isolatedStack).hasResourceProperties('AWS::Lambda::Function', {
+            VpcConfig: Match.objectLike({ SubnetIds: ['subnet-0a1b2c3d4e5f60005', 'subnet-0a1b2c3d4e5f60006'] }),
+        });
+        expect(() => new OpenWebUIEcsConstruct(new Stack(new App(), 'PublicScriptsStack'), 'OpenWebUIEcsConstruct', {
+            pipelineScriptsSubnets: { subnetType: SubnetType.PUBLIC },
+        })).toThrow(/pipelineScriptsSubnets must not contain public subnets/);
+    });
+
+    test('Explicit task subnets are used without a public IP', () => {
+        const stack = new Stack(new App(), 'SharedSubnetsStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            vpc: importVpc(stack),
+            taskSubnets: { subnetType: SubnetType.PRIVATE_WITH_EGRESS },
+        });
+        const template = Template.fromStack(stack);
+
+        template.hasResourceProperties('AWS::ECS::Service', {
+            NetworkConfiguration: {
+                AwsvpcConfiguration: {
+                    AssignPublicIp: 'DISABLED',
+                    Subnets: ['subnet-0a1b2c3d4e5f60003', 'subnet-0a1b2c3d4e5f60004'],
+                }
+            }
+        });
+    });
+});
+
+describe('OpenWebUIEcsConstruct with private networking', () => {
+    let template: Template;
+
+    beforeAll(() => {
+        const stack = new Stack(new App(), 'PrivateNetworkingStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            networking: NetworkingMode.PRIVATE,
+        });
+        template = Template.fromStack(stack);
+    });
+
+    test('Tasks run in private subnets without a public IP', () => {
+        template.hasResourceProperties('AWS::ECS::Service', {
+            NetworkConfiguration: {
+                AwsvpcConfiguration: {
+                    AssignPublicIp: 'DISABLED',
+                    Subnets: [
+                        { Ref: Match.stringLikeRegexp('OpenWebUIVpcPrivateSubnet1') },
+                        { Ref: Match.stringLikeRegexp('OpenWebUIVpcPrivateSubnet2') },
+                    ],
+                }
+            }
+        });
+    });
+
+    test('Interface endpoints and an S3 gateway endpoint are created', () => {
+        template.resourceCountIs('AWS::EC2::VPCEndpoint', 8);
+        for (const service of ['bedrock', 'bedrock-runtime', 'secretsmanager', 'ecr.api', 'ecr.dkr', 'logs', 'sts']) {
+            template.hasResourceProperties('AWS::EC2::VPCEndpoint', {
+                VpcEndpointType: 'Interface',
+                PrivateDnsEnabled: true,
+                ServiceName: { 'Fn::Join': ['', Match.arrayWith([`.${service}`])] },
+            });
+        }
+        template.hasResourceProperties('AWS::EC2::VPCEndpoint', {
+            VpcEndpointType: 'Gateway',
+        });
+    });
+
+    test('EFS only accepts NFS from the service security group', () => {
+        template.resourcePropertiesCountIs('AWS::EC2::SecurityGroupIngress', {
+            IpProtocol: 'tcp',
+            FromPort: 2049,
+            ToPort: 2049,
+            SourceSecurityGroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('ServiceSG'), 'GroupId'] },
+        }, 1);
+        template.resourcePropertiesCountIs('AWS::EC2::SecurityGroup', {
+            SecurityGroupIngress: Match.arrayWith([Match.objectLike({ FromPort: 2049 })]),
+        }, 0);
+    });
+
+    test('Task egress is limited to HTTPS and NFS', () => {
+        template.hasResourceProperties('AWS::EC2::SecurityGroup', {
+            GroupDescription: Match.stringLikeRegexp('ServiceSG'),
+            SecurityGroupEgress: [
+                { CidrIp: '0.0.0.0/0', FromPort: 443, ToPort: 443, IpProtocol: 'tcp' }
+            ],
+        });
+    });
+
+    test('Public task subnets are rejected', () => {
+        const stack = new Stack(new App(), 'PrivatePublicSubnetsStack');
+        expect(() => new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            networking: NetworkingMode.PRIVATE,
+            taskSubnets: { subnetType: SubnetType.PUBLIC },
+        })).toThrow(/must not contain public subnets/);
+    });
+});
+
+describe('OpenWebUIEcsConstruct with API key rotation', () => {
+    test('Secret ARN is an output', () => {
+        const stack = new Stack(new App(), 'ApiKeyOutputStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct');
+        const template = Template.fromStack(stack);
+
+        template.hasOutput('*', {
+            Value: { Ref: Match.stringLikeRegexp('APIKeySecret') },
+        });
+        template.resourceCountIs('AWS::SecretsManager::RotationSchedule', 0);
+    });
+
+    test('Rotation redeploys every service using the key, pipelines first', () => {
+        const stack = new Stack(new App(), 'ApiKeyRotationStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            apiKeyRotation: Duration.days(30),
+            pipelinesService: {},
+        });
+        const template = Template.fromStack(stack);
+
+        template.hasResourceProperties('AWS::SecretsManager::RotationSchedule', {
+            SecretId: { Ref: Match.stringLikeRegexp('APIKeySecret') },
+            RotationRules: { ScheduleExpression: 'rate(30 days)' },
+        });
+        template.hasResourceProperties('AWS::Lambda::Function', {
+            Handler: 'api-key.handler',
+            Timeout: 900,
+            Environment: {
+                Variables: {
+                    CLUSTER_ARN: { 'Fn::GetAtt': [Match.stringLikeRegexp('Cluster'), 'Arn'] },
+                    SERVICE_NAMES: {
+                        'Fn::Join': ['', [
+                            { 'Fn::GetAtt': [Match.stringLikeRegexp('PipelinesService'), 'Name'] },
+                            ',',
+                            { 'Fn::GetAtt': [Match.stringLikeRegexp('OpenWebUIService'), 'Name'] },
+                        ]],
+                    },
+                },
+            },
+        });
+        template.hasResourceProperties('AWS::IAM::Policy', {
+            PolicyDocument: {
+                Statement: Match.arrayWith([
+                    Match.objectLike({
+                        Action: ['ecs:UpdateService', 'ecs:DescribeServices'],
+                        Resource: [
+                            { Ref: Match.stringLikeRegexp('PipelinesService') },
+                            { Ref: Match.stringLikeRegexp('OpenWebUIService') },
+                        ],
+                    }),
+                ]),
+            },
+        });
+    });
+});
+
+describe('OpenWebUIEcsConstruct with origin header rotation', () => {
+    test('Rotation function updates the listener rule and the distribution', () => {
+        const stack = new Stack(new App(), 'OriginRotationStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            originVerifyRotation: Duration.days(30),
+        });
+        const template = Template.fromStack(stack);
+
+        template.hasResourceProperties('AWS::SecretsManager::RotationSchedule', {
+            SecretId: { Ref: Match.stringLikeRegexp('OriginVerifyHeaderSecret') },
+            RotationRules: { ScheduleExpression: 'rate(30 days)' },
+        });
+        template.hasResourceProperties('AWS::Lambda::Function', {
+            Timeout: 900,
+            Environment: {
+                Variables: {
+                    HEADER_NAME: 'x-unique-header',
+                    LISTENER_RULE_ARN: { Ref: Match.stringLikeRegexp('AllowValidHeader') },
+                    DISTRIBUTION_ID: { Ref: Match.stringLikeRegexp('WebUIDistribution') },
+                }
+            }
+        });
+        template.hasResourceProperties('AWS::IAM::Policy', {
+            PolicyDocument: {
+                Statement: Match.arrayWith([
+                    Match.objectLike({
+                        Action: 'elasticloadbalancing:ModifyRule',
+                        Resource: { Ref: Match.stringLikeRegexp('AllowValidHeader') },
+                    }),
+                    Match.objectLike({
+                        Action: ['cloudfront:GetDistribution', 'cloudfront:GetDistributionConfig', 'cloudfront:UpdateDistribution'],
+                    }),
+                ]),
+            }
+        });
+    });
+});
+
+describe('OpenWebUIEcsConstruct with HTTPS to the origin', () => {
+    const certificateArn = 'arn:aws:acm:us-east-1:123456789012:certificate/11111111-2222-3333-4444-555555555555';
+    let template: Template;
+
+    beforeAll(() => {
+        const stack = new Stack(new App(), 'HttpsOriginStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            certificate: Certificate.fromCertificateArn(stack, 'Certificate', certificateArn),
+            originDomainName: 'origin.chat.example.com',
+        });
+        template = Template.fromStack(stack);
+    });
+
+    test('HTTPS listener uses the certificate and checks the origin header', () => {
+        template.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', {
+            Port: 443,
+            Protocol: 'HTTPS',
+            Certificates: [{ CertificateArn: certificateArn }],
+            DefaultActions: [Match.objectLike({ Type: 'fixed-response' })],
+        });
+        template.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerRule', {
+            ListenerArn: { Ref: Match.stringLikeRegexp('OpenWebUIHttpsListener') },
+            Priority: 1,
+        });
+    });
+
+    test('HTTP listener only redirects to HTTPS', () => {
+        template.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', {
+            Port: 80,
+            DefaultActions: [
+                {
+                    Type: 'redirect',
+                    RedirectConfig: { Protocol: 'HTTPS', Port: '443', StatusCode: 'HTTP_301' },
+                }
+            ],
+        });
+    });
+
+    test('CloudFront reaches the origin domain over HTTPS only', () => {
+        template.hasResourceProperties('AWS::CloudFront::Distribution', {
+            DistributionConfig: {
+                Origins: [
+                    Match.objectLike({
+                        DomainName: 'origin.chat.example.com',
+                        CustomOriginConfig: Match.objectLike({ OriginProtocolPolicy: 'https-only' }),
+                    })
+                ],
+                DefaultCacheBehavior: Match.objectLike({
+                    // Managed AllViewerExceptHostHeader policy
+                    OriginRequestPolicyId: 'b689b0a8-53d0-40ab-baf2-68738e2966ac',
+                }),
+            }
+        });
+    });
+
+    test('CloudFront can reach the ALB on 443', () => {
+        template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+            GroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('OpenWebUIAlbSG'), 'GroupId'] },
+            FromPort: 443,
+            SourcePrefixListId: { 'Fn::GetAtt': [Match.stringLikeRegexp('CfPrefixListLookup'), 'PrefixLists.0.PrefixListId'] },
+        });
+    });
+});
+
+describe('OpenWebUIEcsConstruct with a certificate but no origin domain', () => {
+    test('CloudFront keeps using HTTP and a warning is reported', () => {
+        const app = new App({
+            context: {
+                'acm-arn:account=123456789012:region=us-east-1': 'arn:aws:acm:us-east-1:123456789012:certificate/abc',
+            },
+        });
+        const stack = new Stack(app, 'CertificateOnlyStack', { env: { account: '123456789012', region: 'us-east-1' } });
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct');
+
+        Annotations.fromStack(stack).hasWarning('*', Match.stringLikeRegexp('originDomainName is not set'));
+        Template.fromStack(stack).hasResourceProperties('AWS::CloudFront::Distribution', {
+            DistributionConfig: {
+                Origins: [
+                    Match.objectLike({
+                        CustomOriginConfig: Match.objectLike({ OriginProtocolPolicy: 'http-only' }),
+                    })
+                ],
+            }
+        });
+    });
+});
+
+describe('OpenWebUIEcsConstruct with custom domain names', () => {
+    const createStack = (region: string) => Template.fromStack(createDomainStack(region));
+    const createDomainStack = (region: string, cloudFrontCertificateStack?: Stack) => {
+        const scope = cloudFrontCertificateStack?.node.scope ?? new App();
+        const stack = new Stack(scope, `DomainStack-${region}`, { env: { account: '123456789012', region }, crossRegionReferences: true });
+        addDomainConstruct(stack, 'OpenWebUIEcsConstruct', 'chat.example.com', 'pipelines.example.com', cloudFrontCertificateStack);
+        return stack;
+    };
+    const addDomainConstruct = (stack: Stack, id: string, domainName: string, pipelinesDomainName: string, cloudFrontCertificateStack?: Stack) => {
+        new OpenWebUIEcsConstruct(stack, id, {
+            domain: {
+                hostedZone: HostedZone.fromHostedZoneAttributes(stack, `${id}Zone`, {
+                    hostedZoneId: 'Z0123456789ABCDEFGHIJ',
+                    zoneName: 'example.com',
+                }),
+                domainName,
+                pipelinesDomainName,
+                cloudFrontCertificateStack,
+            },
+            pipelinesEndpoint: {
+                mode: PipelinesEndpointMode.INTERNAL,
+                allowedCidrs: ['10.0.0.0/8'],
+            },
+        });
+    };
+    const createCertificateStack = () => new Stack(new App(), 'CertificateStack', {
+        env: { account: '123456789012', region: 'us-east-1' },
+        crossRegionReferences: true,
+    });
+
+    describe('in us-east-1', () => {
+        let template: Template;
+
+        beforeAll(() => {
+            template = createStack('us-east-1');
+        });
+
+        test('Certificates are created with DNS validation', () => {
+            template.hasResourceProperties('AWS::CertificateManager::Certificate', {
+                DomainName: 'origin.chat.example.com',
+                SubjectAlternativeNames: ['pipelines.example.com'],
+                ValidationMethod: 'DNS',
+            });
+            template.hasResourceProperties('AWS::CertificateManager::Certificate', {
+                DomainName: 'chat.example.com',
+                ValidationMethod: 'DNS',
+            });
+        });
+
+        test('Distribution serves the custom domain over HTTPS to the origin', () => {
+            template.hasResourceProperties('AWS::CloudFront::Distribution', {
+                DistributionConfig: Match.objectLike({
+                    Aliases: ['chat.example.com'],
+                    ViewerCertificate: Match.objectLike({ AcmCertificateArn: { Ref: Match.stringLikeRegexp('CloudFrontCertificate') } }),
+                    Origins: [
+                        Match.objectLike({
+                            DomainName: 'origin.chat.example.com',
+                            CustomOriginConfig: Match.objectLike({ OriginProtocolPolicy: 'https-only' }),
+                        })
+                    ],
+                }),
+            });
+        });
+
+        test('Alias records point at the distribution and the load balancers', () => {
+            template.resourcePropertiesCountIs('AWS::Route53::RecordSet', {
+                Name: 'chat.example.com.',
+                AliasTarget: Match.objectLike({ DNSName: { 'Fn::GetAtt': [Match.stringLikeRegexp('WebUIDistribution'), 'DomainName'] } }),
+            }, 2);
+            template.hasResourceProperties('AWS::Route53::RecordSet', {
+                Name: 'origin.chat.example.com.',
+                Type: 'A',
+            });
+            template.hasResourceProperties('AWS::Route53::RecordSet', {
+                Name: 'pipelines.example.com.',
+                Type: 'A',
+            });
+        });
+
+        test('Custom domain URL is output', () => {
+            const outputs = template.findOutputs('*');
+            expect(Object.values(outputs).map((output) => output.Value)).toEqual(expect.arrayContaining([
+                'https://chat.example.com',
+                'https://pipelines.example.com',
+            ]));
+        });
+    });
+
+    test('CloudFront certificate is created in the given us-east-1 stack from another region', () => {
+        const certificateStack = createCertificateStack();
+        const stack = createDomainStack('eu-west-1', certificateStack);
+        Template.fromStack(certificateStack).hasResourceProperties('AWS::CertificateManager::Certificate', {
+            DomainName: 'chat.example.com',
+            ValidationMethod: 'DNS',
+            DomainValidationOptions: [{ DomainName: 'chat.example.com', HostedZoneId: 'Z0123456789ABCDEFGHIJ' }],
+        });
+        const template = Template.fromStack(stack);
+        template.resourcePropertiesCountIs('AWS::CertificateManager::Certificate', { DomainName: 'chat.example.com' }, 0);
+        template.resourcePropertiesCountIs('AWS::CloudFormation::CustomResource', { DomainName: 'chat.example.com' }, 0);
+        template.hasResourceProperties('AWS::CloudFront::Distribution', {
+            DistributionConfig: Match.objectLike({
+                ViewerCertificate: Match.objectLike({ AcmCertificateArn: { 'Fn::GetAtt': [Match.stringLikeRegexp('ExportsReader'), Match.stringLikeRegexp('CloudFrontCertificate')] } }),
+            }),
+        });
+    });
+
+    test('Two domains get separate CloudFront certificates in the same us-east-1 stack', () => {
+        const certificateStack = createCertificateStack();
+        const stack = createDomainStack('eu-west-1', certificateStack);
+        addDomainConstruct(stack, 'SecondOpenWebUIEcsConstruct', 'other.example.com', 'other-pipelines.example.com', certificateStack);
+
+        const certificates = Template.fromStack(certificateStack).findResources('AWS::CertificateManager::Certificate');
+        expect(Object.values(certificates).map((certificate) => certificate.Properties.DomainName).sort())
+            .toEqual(['chat.example.com', 'other.example.com']);
+    });
+
+    test('Outside us-east-1 a CloudFront certificate or certificate stack is needed', () => {
+        expect(() => createDomainStack('eu-west-1')).toThrow(/stack is in eu-west-1; pass domain.cloudFrontCertificate or domain.cloudFrontCertificateStack/);
+    });
+
+    test('The CloudFront certificate stack must be in us-east-1', () => {
+        const certificateStack = new Stack(new App(), 'CertificateStack', { env: { account: '123456789012', region: 'eu-central-1' } });
+        expect(() => createDomainStack('eu-west-1', certificateStack)).toThrow(/cloudFrontCertificateStack must be in us-east-1, got eu-central-1/);
+    });
+
+    test('An env-agnostic stack needs a CloudFront certificate', () => {
+        const stack = new Stack(new App(), 'AgnosticDomainStack');
+        expect(() => new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            domain: {
+                hostedZone: HostedZone.fromHostedZoneAttributes(stack, 'Zone', { hostedZoneId: 'Z0123456789ABCDEFGHIJ', zoneName: 'example.com' }),
+                domainName: 'chat.example.com',
+            },
+        })).toThrow(/environment-agnostic stack/);
+    });
+});
+
+describe('OpenWebUIEcsConstruct Bedrock permissions', () => {
+    const taskRolePolicy = (template: Template) => {
+        const policies = template.findResources('AWS::IAM::Policy', {
+            Properties: { PolicyName: Match.stringLikeRegexp('OpenWebUITaskDefTaskRoleDefaultPolicy') },
+        });
+        return Object.values(policies)[0].Properties.PolicyDocument.Statement;
+    };
+
+    test('Only invoke and list actions are granted by default', () => {
+        const stack = new Stack(new App(), 'BedrockDefaultStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct');
+        const statements = taskRolePolicy(Template.fromStack(stack));
+
+        const actions = statements.flatMap((statement: { Action: string | string[] }) => statement.Action);
+        expect(actions).not.toContain('bedrock:*');
+        expect(actions).not.toContain('bedrock:InvokeModelWithResponseStream');
+        expect(statements).toEqual(expect.arrayContaining([
+            expect.objectContaining({
+                Action: 'bedrock:InvokeModel',
+                Resource: [
+                    { 'Fn::Join': ['', ['arn:', { Ref: 'AWS::Partition' }, ':bedrock:us-east-1::foundation-model/*']] },
+                    { 'Fn::Join': ['', ['arn:', { Ref: 'AWS::Partition' }, ':bedrock:us-west-2::foundation-model/*']] },
+                ],
+            }),
+            expect.objectContaining({
+                Action: expect.arrayContaining(['bedrock:ListFoundationModels', 'bedrock:ListInferenceProfiles']),
+                Resource: '*',
+            }),
+        ]));
+    });
+
+    test('Allow-listed models and inference profiles are scoped to the given regions', () => {
+        const stack = new Stack(new App(), 'BedrockAllowListStack', { env: { account: '123456789012', region: 'us-east-1' } });
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            bedrock: {
+                modelIds: ['anthropic.claude-3-5-sonnet-20240620-v1:0'],
+                inferenceProfiles: ['us.anthropic.claude-3-5-sonnet-20240620-v1:0'],
+                regions: ['us-east-1'],
+                actions: [BedrockActionGroup.INVOKE],
+            },
+        });
+        const statements = taskRolePolicy(Template.fromStack(stack));
+
+        expect(statements).toEqual(expect.arrayContaining([
+            expect.objectContaining({
+                Action: 'bedrock:InvokeModel',
+                Resource: [
+                    { 'Fn::Join': ['', ['arn:', { Ref: 'AWS::Partition' }, ':bedrock:us-east-1::foundation-model/anthropic.claude-3-5-sonnet-20240620-v1:0']] },
+                    { 'Fn::Join': ['', ['arn:', { Ref: 'AWS::Partition' }, ':bedrock:us-east-1:123456789012:inference-profile/us.anthropic.claude-3-5-sonnet-20240620-v1:0']] },
+                ],
+            }),
+        ]));
+        expect(JSON.stringify(statements)).not.toContain('bedrock:List');
+    });
+
+    test('Pipelines container gets the regions and inference profiles', () => {
+        const pipelinesEnvironment = (bedrock?: BedrockAccessProps) => {
+            const stack = new Stack(new App(), 'BedrockEnvironmentStack');
+            new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', { bedrock });
+            const taskDefinitions = Template.fromStack(stack).findResources('AWS::ECS::TaskDefinition');
+            const containers = Object.values(taskDefinitions)[0].Properties.ContainerDefinitions;
+            return containers.find((container: { Name: string }) => container.Name === 'pipelines').Environment;
+        };
+
+        expect(pipelinesEnvironment()).toEqual(expect.arrayContaining([
+            { Name: 'BEDROCK_REGIONS', Value: 'us-east-1,us-west-2' },
+            { Name: 'BEDROCK_INFERENCE_PROFILES', Value: '' },
+            { Name: 'BEDROCK_STREAMING', Value: 'false' },
+        ]));
+        expect(pipelinesEnvironment({
+            regions: ['eu-central-1', 'eu-west-1'],
+            inferenceProfiles: ['eu.anthropic.claude-3-5-sonnet-20240620-v1:0', 'eu.amazon.nova-pro-v1:0'],
+            actions: [BedrockActionGroup.INVOKE, BedrockActionGroup.STREAM],
+        })).toEqual(expect.arrayContaining([
+            { Name: 'BEDROCK_REGIONS', Value: 'eu-central-1,eu-west-1' },
+            { Name: 'BEDROCK_INFERENCE_PROFILES', Value: 'eu.anthropic.claude-3-5-sonnet-20240620-v1:0,eu.amazon.nova-pro-v1:0' },
+            { Name: 'BEDROCK_STREAMING', Value: 'true' },
+        ]));
+    });
+
+    test('Bedrock endpoints are only created when the VPC region is a Bedrock region', () => {
+        const endpointServices = (region: string) => {
+            const stack = new Stack(new App(), 'BedrockEndpointsStack', { env: { account: '123456789012', region } });
+            new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+                networking: NetworkingMode.PRIVATE,
+                bedrock: { regions: ['us-east-1', 'us-west-2'] },
+            });
+            const endpoints = Template.fromStack(stack).findResources('AWS::EC2::VPCEndpoint');
+            return JSON.stringify(Object.values(endpoints).map((endpoint) => endpoint.Properties.ServiceName));
+        };
+
+        expect(endpointServices('us-west-2')).toContain('com.amazonaws.us-west-2.bedrock-runtime');
+        expect(endpointServices('eu-west-1')).not.toContain('bedrock');
+    });
+
+    test('Admin actions are an explicit opt-in', () => {
+        const stack = new Stack(new App(), 'BedrockAdminStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            bedrock: { allowAdminActions: true },
+        });
+        const statements = taskRolePolicy(Template.fromStack(stack));
+
+        expect(statements).toEqual(expect.arrayContaining([
+            expect.objectContaining({ Action: 'bedrock:*', Resource: '*' }),
+        ]));
+    });
+});
+
+describe('OpenWebUIEcsConstruct with a guardrail', () => {
+    let template: Template;
+
+    beforeAll(() => {
+        const stack = new Stack(new App(), 'GuardrailStack', { env: { account: '123456789012', region: 'us-east-1' } });
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            bedrock: { regions: ['us-east-1'] },
+            guardrail: {
+                contentFilters: { insults: GuardrailFilterStrength.MEDIUM, misconduct: GuardrailFilterStrength.NONE },
+                deniedTopics: [{ name: 'InvestmentAdvice', definition: 'Recommendations on specific investments.' }],
+                piiEntities: { EMAIL: GuardrailPiiAction.ANONYMIZE, US_SOCIAL_SECURITY_NUMBER: GuardrailPiiAction.BLOCK },
+                blockedWords: ['Project Falcon'],
+                blockProfanity: true,
+            },
+        });
+        template = Template.fromStack(stack);
+    });
+
+    test('Guardrail has the configured policies and a version', () => {
+        template.hasResourceProperties('AWS::Bedrock::Guardrail', {
+            ContentPolicyConfig: {
+                FiltersConfig: [
+                    { Type: 'SEXUAL', InputStrength: 'HIGH', OutputStrength: 'HIGH' },
+                    { Type: 'VIOLENCE', InputStrength: 'HIGH', OutputStrength: 'HIGH' },
+                    { Type: 'HATE', InputStrength: 'HIGH', OutputStrength: 'HIGH' },
+                    { Type: 'INSULTS', InputStrength: 'MEDIUM', OutputStrength: 'MEDIUM' },
+                    { Type: 'PROMPT_ATTACK', InputStrength: 'HIGH', OutputStrength: 'NONE' },
+                ],
+            },
+            TopicPolicyConfig: {
+                TopicsConfig: [{ Name: 'InvestmentAdvice', Definition: 'Recommendations on specific investments.', Type: 'DENY' }],
+            },
+            SensitiveInformationPolicyConfig: {
+                PiiEntitiesConfig: [
+                    { Type: 'EMAIL', Action: 'ANONYMIZE' },
+                    { Type: 'US_SOCIAL_SECURITY_NUMBER', Action: 'BLOCK' },
+                ],
+            },
+            WordPolicyConfig: {
+                WordsConfig: [{ Text: 'Project Falcon' }],
+                ManagedWordListsConfig: [{ Type: 'PROFANITY' }],
+            },
+        });
+        template.hasResourceProperties('AWS::Bedrock::GuardrailVersion', {
+            GuardrailIdentifier: { 'Fn::GetAtt': [Match.stringLikeRegexp('Guardrail'), 'GuardrailId'] },
+            Description: Match.stringLikeRegexp('^Configuration [0-9a-f]{16}$'),
+        });
+    });
+
+    test('Pipelines container gets the guardrail ID and version', () => {
+        template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+            ContainerDefinitions: Match.arrayWith([
+                Match.objectLike({
+                    Name: 'pipelines',
+                    Environment: Match.arrayWith([
+                        { Name: 'BEDROCK_GUARDRAIL_ID', Value: { 'Fn::GetAtt': [Match.stringLikeRegexp('Guardrail'), 'GuardrailId'] } },
+                        { Name: 'BEDROCK_GUARDRAIL_VERSION', Value: { 'Fn::GetAtt': [Match.stringLikeRegexp('GuardrailVersion'), 'Version'] } },
+                    ]),
+                }),
+            ]),
+        });
+    });
+
+    test('Models may only be invoked with the guardrail', () => {
+        template.hasResourceProperties('AWS::IAM::Policy', {
+            PolicyName: Match.stringLikeRegexp('OpenWebUITaskDefTaskRoleDefaultPolicy'),
+            PolicyDocument: {
+                Statement: Match.arrayWith([
+                    Match.objectLike({
+                        Action: 'bedrock:InvokeModel',
+                        Condition: {
+                            StringEquals: {
+                                'bedrock:GuardrailIdentifier': {
+                                    'Fn::Join': ['', [
+                                        { 'Fn::GetAtt': [Match.stringLikeRegexp('Guardrail'), 'GuardrailArn'] },
+                                        ':',
+                                        { 'Fn::GetAtt': [Match.stringLikeRegexp('GuardrailVersion'), 'Version'] },
+                                    ]],
+                                },
+                            },
+                        },
+                    }),
+                    Match.objectLike({
+                        Action: 'bedrock:ApplyGuardrail',
+                        Resource: { 'Fn::GetAtt': [Match.stringLikeRegexp('Guardrail'), 'GuardrailArn'] },
+                    }),
+                ]),
+            },
+        });
+    });
+
+    test('Bedrock regions other than the stack region and admin actions are rejected', () => {
+        const stack = new Stack(new App(), 'GuardrailRegionStack', { env: { account: '123456789012', region: 'us-east-1' } });
+        expect(() => new OpenWebUIEcsConstruct(stack, 'Default', { guardrail: {} }))
+            .toThrow(/set bedrock.regions to \['us-east-1'\]/);
+        expect(() => new OpenWebUIEcsConstruct(stack, 'Admin', { guardrail: {}, bedrock: { regions: ['us-east-1'], allowAdminActions: true } }))
+            .toThrow(/allowAdminActions would allow invocations without the guardrail/);
+    });
+});
+
+describe('OpenWebUIEcsConstruct with a knowledge base', () => {
+    let template: Template;
+
+    beforeAll(() => {
+        const stack = new Stack(new App(), 'KnowledgeBaseStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            knowledgeBase: { inclusionPrefixes: ['shared/'] },
+        });
+        template = Template.fromStack(stack);
+    });
+
+    test('Knowledge base indexes the documents bucket into an OpenSearch Serverless collection', () => {
+        template.hasResourceProperties('Custom::S3BucketNotifications', {
+            NotificationConfiguration: { EventBridgeConfiguration: {} },
+        });
+        template.hasResourceProperties('AWS::OpenSearchServerless::Collection', { Type: 'VECTORSEARCH' });
+        template.hasResourceProperties('AWS::Bedrock::KnowledgeBase', {
+            KnowledgeBaseConfiguration: {
+                Type: 'VECTOR',
+                VectorKnowledgeBaseConfiguration: {
+                    EmbeddingModelArn: { 'Fn::Join': ['', Match.arrayWith([':bedrock:', '::foundation-model/amazon.titan-embed-text-v2:0'])] },
+                },
+            },
+            StorageConfiguration: {
+                Type: 'OPENSEARCH_SERVERLESS',
+                OpensearchServerlessConfiguration: Match.objectLike({
+                    VectorIndexName: 'bedrock-knowledge-base-default-index',
+                    FieldMapping: { VectorField: 'embedding', TextField: 'text', MetadataField: 'metadata' },
+                }),
+            },
+        });
+        template.hasResourceProperties('AWS::Bedrock::DataSource', {
+            DataSourceConfiguration: {
+                Type: 'S3',
+                S3Configuration: { InclusionPrefixes: ['shared/'] },
+            },
+        });
+        template.hasResource('AWS::Bedrock::KnowledgeBase', {
+            DependsOn: Match.arrayWith([Match.stringLikeRegexp('VectorIndex')]),
+        });
+    });
+
+    test('Collection is only reachable by Bedrock and through a VPC endpoint', () => {
+        const networkPolicy = Object.values(template.findResources('AWS::OpenSearchServerless::SecurityPolicy', {
+            Properties: { Type: 'network' },
+        }))[0];
+        const policy = JSON.stringify(networkPolicy.Properties.Policy);
+        expect(policy).toContain('\\"AllowFromPublic\\":false');
+        expect(policy).toContain('bedrock.amazonaws.com');
+        expect(policy).toContain('CollectionEndpoint');
+        template.hasResourceProperties('AWS::OpenSearchServerless::VpcEndpoint', {
+            VpcId: { Ref: Match.stringLikeRegexp('Vpc') },
+        });
+        template.hasResourceProperties('AWS::Lambda::Function', {
+            Handler: 'index.handler',
+            VpcConfig: Match.objectLike({ SubnetIds: Match.anyValue() }),
+            Code: { ZipFile: Match.stringLikeRegexp('put_index') },
+        });
+        template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+            GroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('CollectionEndpointSG'), 'GroupId'] },
+            FromPort: 443,
+        });
+    });
+
+    test('Document changes are queued and synced in batches', () => {
+        const queueArn = { 'Fn::GetAtt': [Match.stringLikeRegexp('KnowledgeBaseDocumentChanges[0-9A-F]+$'), 'Arn'] };
+        template.hasResourceProperties('AWS::Events::Rule', {
+            EventPattern: {
+                'source': ['aws.s3'],
+                'detail-type': ['Object Created', 'Object Deleted'],
+            },
+            Targets: [Match.objectLike({ Arn: queueArn })],
+        });
+        template.hasResourceProperties('AWS::SQS::Queue', {
+            VisibilityTimeout: 900,
+            RedrivePolicy: Match.objectLike({ maxReceiveCount: 96 }),
+        });
+        template.hasResourceProperties('AWS::Lambda::EventSourceMapping', {
+            EventSourceArn: queueArn,
+            BatchSize: 10000,
+            MaximumBatchingWindowInSeconds: 300,
+        });
+        template.hasResourceProperties('AWS::IAM::Policy', {
+            PolicyDocument: {
+                Statement: Match.arrayWith([Match.objectLike({ Action: ['bedrock:StartIngestionJob', 'bedrock:ListIngestionJobs'] })]),
+            },
+        });
+    });
+
+    test('Pipelines may query the knowledge base', () => {
+        const knowledgeBaseId = { 'Fn::GetAtt': [Match.stringLikeRegexp('KnowledgeBase'), 'KnowledgeBaseId'] };
+        template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+            ContainerDefinitions: Match.arrayWith([
+                Match.objectLike({
+                    Name: 'pipelines',
+                    Environment: Match.arrayWith([
+                        { Name: 'KNOWLEDGE_BASE_ID', Value: knowledgeBaseId },
+                        { Name: 'KNOWLEDGE_BASE_REGION', Value: { Ref: 'AWS::Region' } },
+                    ]),
+                }),
+            ]),
+        });
+        template.hasResourceProperties('AWS::IAM::Policy', {
+            PolicyName: Match.stringLikeRegexp('OpenWebUITaskDefTaskRoleDefaultPolicy'),
+            PolicyDocument: {
+                Statement: Match.arrayWith([
+                    Match.objectLike({
+                        Action: 'bedrock:Retrieve',
+                        Resource: { 'Fn::GetAtt': [Match.stringLikeRegexp('KnowledgeBase'), 'KnowledgeBaseArn'] },
+                    }),
+                ]),
+            },
+        });
+    });
+
+    test('Aurora pgvector can hold the embeddings instead', () => {
+        const stack = new Stack(new App(), 'PgvectorKnowledgeBaseStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            knowledgeBase: { vectorStore: KnowledgeBaseVectorStore.AURORA_PGVECTOR, embeddingDimensions: 512 },
+        });
+        const pgvectorTemplate = Template.fromStack(stack);
+
+        pgvectorTemplate.resourceCountIs('AWS::OpenSearchServerless::Collection', 0);
+        pgvectorTemplate.hasResourceProperties('AWS::RDS::DBCluster', {
+            Engine: 'aurora-postgresql',
+            EnableHttpEndpoint: true,
+        });
+        pgvectorTemplate.hasResourceProperties('AWS::CloudFormation::CustomResource', {
+            Statements: Match.arrayWith([Match.stringLikeRegexp('embedding vector\\(512\\)')]),
+        });
+        pgvectorTemplate.hasResourceProperties('AWS::Bedrock::KnowledgeBase', {
+            StorageConfiguration: {
+                Type: 'RDS',
+                RdsConfiguration: Match.objectLike({
+                    DatabaseName: 'knowledgebase',
+                    TableName: 'bedrock_integration.bedrock_kb',
+                }),
+            },
+        });
+    });
+});
+
+describe('OpenWebUIEcsConstruct with an image mirror', () => {
+    let template: Template;
+
+    beforeAll(() => {
+        const stack = new Stack(new App(), 'ImageMirrorStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            openWebUIImageDigest: openWebUIDigest,
+            pipelinesImageDigest: pipelinesDigest,
+            imageMirror: {
+                upstreamCredentials: Secret.fromSecretNameV2(stack, 'GhcrCredentials', 'ecr-pullthroughcache/ghcr'),
+                repositoryPrefix: 'ghcr',
+            },
+        });
+        template = Template.fromStack(stack);
+    });
+
+    test('Repositories mirror ghcr.io, scan on push and expire old images', () => {
+        template.hasResourceProperties('AWS::ECR::PullThroughCacheRule', {
+            EcrRepositoryPrefix: 'ghcr',
+            UpstreamRegistry: 'github-container-registry',
+            UpstreamRegistryUrl: 'ghcr.io',
+            CredentialArn: Match.anyValue(),
+        });
+        for (const repositoryName of ['ghcr/open-webui/open-webui', 'ghcr/open-webui/pipelines']) {
+            template.hasResourceProperties('AWS::ECR::Repository', {
+                RepositoryName: repositoryName,
+                ImageScanningConfiguration: { ScanOnPush: true },
+                LifecyclePolicy: { LifecyclePolicyText: Match.stringLikeRegexp('"countNumber":10') },
+            });
+        }
+    });
+
+    test('Tasks pull the pinned digests from the mirror', () => {
+        template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+            ContainerDefinitions: [
+                Match.objectLike({
+                    Name: 'openwebui',
+                    Image: { 'Fn::Join': ['', Match.arrayWith([{ Ref: Match.stringLikeRegexp('ImageMirroropenwebuiopenwebui') }, `@${openWebUIDigest}`])] },
+                }),
+                Match.objectLike({
+                    Name: 'pipelines',
+                    Image: { 'Fn::Join': ['', Match.arrayWith([{ Ref: Match.stringLikeRegexp('ImageMirroropenwebuipipelines') }, `@${pipelinesDigest}`])] },
+                }),
+            ],
+        });
+        template.hasResourceProperties('AWS::IAM::Policy', {
+            PolicyName: Match.stringLikeRegexp('OpenWebUITaskDefExecutionRoleDefaultPolicy'),
+            PolicyDocument: {
+                Statement: Match.arrayWith([
+                    Match.objectLike({
+                        Action: 'ecr:BatchImportUpstreamImage',
+                        Resource: Match.arrayWith([{ 'Fn::GetAtt': [Match.stringLikeRegexp('ImageMirroropenwebuiopenwebui'), 'Arn'] }]),
+                    }),
+                ]),
+            },
+        });
+    });
+
+    test('A mirror without digests is rejected', () => {
+        const stack = new Stack(new App(), 'UnpinnedMirrorStack');
+        expect(() => new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            openWebUIImageDigest: openWebUIDigest,
+            imageMirror: { upstreamCredentials: Secret.fromSecretNameV2(stack, 'GhcrCredentials', 'ecr-pullthroughcache/ghcr') },
+        })).toThrow(/imageMirror requires/);
+    });
+});
+
+describe('OpenWebUIEcsConstruct settings', () => {
+    test('A single task gets a persistent session secret', () => {
+        const stack = new Stack(new App(), 'SessionSecretStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct');
+        const template = Template.fromStack(stack);
+
+        template.hasResourceProperties('AWS::SecretsManager::Secret', {
+            GenerateSecretString: Match.objectLike({ PasswordLength: 64 }),
+        });
+        template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+            ContainerDefinitions: Match.arrayWith([Match.objectLike({
+                Name: 'openwebui',
+                Secrets: Match.arrayWith([{
+                    Name: 'WEBUI_SECRET_KEY',
+                    ValueFrom: { Ref: Match.stringLikeRegexp('WebUISecretKey') },
+                }]),
+            })]),
+        });
+    });
+
+    test('Settings become environment variables and secrets of the Open WebUI container', () => {
+        const stack = new Stack(new App(), 'SettingsStack');
+        const openAIKey = Secret.fromSecretNameV2(stack, 'OpenAIKey', 'openai-api-key');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            settings: {
+                name: 'Example Chat',
+                enableSignup: false,
+                defaultUserRole: OpenWebUIUserRole.USER,
+                defaultModels: ['anthropic.claude-3-5-sonnet', 'amazon.nova-pro'],
+                ragEmbeddingEngine: RagEmbeddingEngine.OPENAI,
+                ragOpenAIApiKey: ECSSecret.fromSecretsManager(openAIKey),
+                persistentConfig: false,
+                environment: { ENABLE_IMAGE_GENERATION: 'true' },
+            },
+        });
+        const template = Template.fromStack(stack);
+
+        template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+            ContainerDefinitions: Match.arrayWith([Match.objectLike({
+                Name: 'openwebui',
+                Environment: Match.arrayWith([
+                    { Name: 'WEBUI_NAME', Value: 'Example Chat' },
+                    { Name: 'ENABLE_SIGNUP', Value: 'false' },
+                    { Name: 'DEFAULT_USER_ROLE', Value: 'user' },
+                    { Name: 'DEFAULT_MODELS', Value: 'anthropic.claude-3-5-sonnet,amazon.nova-pro' },
+                    { Name: 'RAG_EMBEDDING_ENGINE', Value: 'openai' },
+                    { Name: 'ENABLE_PERSISTENT_CONFIG', Value: 'false' },
+                    { Name: 'ENABLE_IMAGE_GENERATION', Value: 'true' },
+                    { Name: 'DATA_DIR', Value: '/app/backend/data' },
+                ]),
+                Secrets: Match.arrayWith([
+                    Match.objectLike({ Name: 'RAG_OPENAI_API_KEY' }),
+                    Match.objectLike({ Name: 'WEBUI_SECRET_KEY' }),
+                ]),
+            })]),
+        });
+    });
+
+    test('Settings may not override what the construct sets', () => {
+        expect(() => new OpenWebUIEcsConstruct(new Stack(new App(), 'DataDirStack'), 'OpenWebUIEcsConstruct', {
+            settings: { environment: { DATA_DIR: '/tmp' } },
+        })).toThrow(/DATA_DIR is set by the construct/);
+        expect(() => new OpenWebUIEcsConstruct(new Stack(new App(), 'SignupStack'), 'OpenWebUIEcsConstruct', {
+            settings: { enableSignup: true, environment: { ENABLE_SIGNUP: 'false' } },
+        })).toThrow(/ENABLE_SIGNUP is already set/);
+    });
+});
+
+describe('OpenWebUIEcsConstruct pipeline scripts deployment', () => {
+    test('Scripts are deployed onto the pipelines access point before the service starts', () => {
+        const stack = new Stack(new App(), 'PipelineScriptsStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct');
+        const template = Template.fromStack(stack);
+
+        template.hasResourceProperties('AWS::Lambda::Function', {
+            Runtime: 'python3.12',
+            FileSystemConfigs: [
+                {
+                    Arn: Match.anyValue(),
+                    LocalMountPath: '/mnt/pipelines',
+                }
+            ],
+            VpcConfig: Match.objectLike({ SubnetIds: Match.anyValue() }),
+        });
+        template.hasResourceProperties('AWS::CloudFormation::CustomResource', {
+            Bucket: Match.anyValue(),
+            Key: Match.stringLikeRegexp('\\.zip$'),
+        });
+        template.hasResource('AWS::ECS::Service', {
+            DependsOn: Match.arrayWith([Match.stringLikeRegexp('PipelineScripts')]),
+        });
+        template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+            ContainerDefinitions: Match.arrayWith([
+                Match.objectLike({
+                    Name: 'pipelines',
+                    Environment: Match.arrayWith([{ Name: 'PIPELINE_SCRIPTS_HASH', Value: Match.stringLikeRegexp('^[0-9a-f]{64}$') }]),
+                }),
+            ]),
+        });
+    });
+
+    test('Changing a script changes the task definition', () => {
+        const scriptsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-scripts-'));
+        const synthHash = () => {
+            const stack = new Stack(new App(), 'PipelineScriptsHashStack');
+            new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', { pipelineScriptsPath: scriptsDir });
+            const taskDefinitions = Template.fromStack(stack).findResources('AWS::ECS::TaskDefinition');
+            return JSON.stringify(Object.values(taskDefinitions)[0].Properties.ContainerDefinitions);
+        };
+
+        fs.writeFileSync(path.join(scriptsDir, 'example.py'), 'print("v1")\n');
+        const before = synthHash();
+        fs.writeFileSync(path.join(scriptsDir, 'example.py'), 'print("v2")\n');
+        expect(synthHash()).not.toEqual(before);
+        fs.rmSync(scriptsDir, { recursive: true, force: true });
+    });
+
+    test('Scripts removed from the directory are removed from EFS on the next deploy', () => {
+        const stack = new Stack(new App(), 'PipelineScriptsRemovalStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct');
+        const deployFunction = Object.values(Template.fromStack(stack).findResources('AWS::Lambda::Function', {
+            Properties: { Code: { ZipFile: Match.stringLikeRegexp('pipeline_scripts.zip') } },
+        }))[0];
+
+        const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-scripts-deploy-'));
+        const targetDir = path.join(workDir, 'pipelines');
+        fs.mkdirSync(targetDir);
+        fs.writeFileSync(path.join(targetDir, 'uploaded.py'), '');
+        fs.writeFileSync(path.join(workDir, 'index.py'), deployFunction.Properties.Code.ZipFile);
+        // Stand-ins for the modules of the Lambda runtime; the object key lists the scripts in the archive
+        fs.writeFileSync(path.join(workDir, 'boto3.py'), [
+            'import zipfile',
+            'class S3:',
+            '    def download_file(self, bucket, key, path):',
+            '        with zipfile.ZipFile(path, "w") as archive:',
+            '            for name in key.split(","):',
+            '                archive.writestr(name, "")',
+            'def client(service):',
+            '    return S3()',
+        ].join('\n'));
+        fs.writeFileSync(path.join(workDir, 'cfnresponse.py'), [
+            'SUCCESS = "SUCCESS"',
+            'FAILED = "FAILED"',
+            'def send(event, context, status, data, physical_id):',
+            '    print(status)',
+        ].join('\n'));
+        const deploy = (scripts: string[]) => {
+            const event = JSON.stringify({ RequestType: 'Update', ResourceProperties: { Bucket: 'assets', Key: scripts.join(',') } });
+            const result = spawnSync('python3', ['-c', `import index, json; index.handler(json.loads('${event}'), None)`], {
+                cwd: workDir,
+                env: { ...process.env, TARGET_DIR: targetDir },
+                encoding: 'utf-8',
+            });
+            expect(result.stdout).toContain('SUCCESS');
+        };
+
+        deploy(['old.py', 'kept.py']);
+        expect(fs.readdirSync(targetDir).sort()).toEqual(['.pipeline_scripts.json', 'kept.py', 'old.py', 'uploaded.py']);
+        deploy(['kept.py']);
+        expect(fs.readdirSync(targetDir).sort()).toEqual(['.pipeline_scripts.json', 'kept.py', 'uploaded.py']);
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    test('Deployment can be turned off', () => {
+        const stack = new Stack(new App(), 'NoPipelineScriptsStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', { deployPipelineScripts: false });
+        Template.fromStack(stack).resourcePropertiesCountIs('AWS::Lambda::Function', {
+            Runtime: 'python3.12',
+        }, 0);
+    });
+});
+
+describe('OpenWebUIEcsConstruct with authentication', () => {
+    const createStack = (authentication: OpenWebUIAuthenticationProps) => {
+        const stack = new Stack(new App(), 'AuthenticationStack', { env: { account: '123456789012', region: 'us-east-1' } });
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            domain: {
+                hostedZone: HostedZone.fromHostedZoneAttributes(stack, 'Zone', {
+                    hostedZoneId: 'Z0123456789ABCDEFGHIJ',
+                    zoneName: 'example.com',
+                }),
+                domainName: 'chat.example.com',
+            },
+            authentication,
+        });
+        return Template.fromStack(stack);
+    };
+    let template: Template;
+
+    beforeAll(() => {
+        template = createStack({});
+    });
+
+    test('Cognito user pool is created and enforced by the ALB', () => {
+
+        template.hasResourceProperties('AWS::Cognito::UserPool', {
+            AdminCreateUserConfig: { AllowAdminCreateUserOnly: true },
+        });
+        template.hasResourceProperties('AWS::Cognito::UserPoolClient', {
+            GenerateSecret: true,
+            CallbackURLs: ['https://chat.example.com/oauth2/idpresponse', 'https://chat.example.com/oauth/oidc/callback'],
+        });
+        template.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerRule', {
+            Priority: 1,
+            Actions: [
+                Match.objectLike({ Type: 'authenticate-cognito', Order: 1 }),
+                Match.objectLike({ Type: 'forward', Order: 2 }),
+            ],
+        });
+    });
+
+    test('Open WebUI signs users in with its own OIDC client against the user pool', () => {
+        template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+            ContainerDefinitions: Match.arrayWith([
+                Match.objectLike({
+                    Name: 'openwebui',
+                    Environment: Match.arrayWith([
+                        { Name: 'ENABLE_SIGNUP', Value: 'false' },
+                        { Name: 'ENABLE_LOGIN_FORM', Value: 'false' },
+                        { Name: 'ENABLE_OAUTH_SIGNUP', Value: 'true' },
+                        { Name: 'OAUTH_MERGE_ACCOUNTS_BY_EMAIL', Value: 'false' },
+                        {
+                            Name: 'OPENID_PROVIDER_URL',
+                            Value: {
+                                'Fn::Join': ['', [
+                                    'https://cognito-idp.us-east-1.amazonaws.com/',
+                                    { Ref: Match.stringLikeRegexp('UserPool') },
+                                    '/.well-known/openid-configuration',
+                                ]],
+                            },
+                        },
+                        { Name: 'OPENID_REDIRECT_URI', Value: 'https://chat.example.com/oauth/oidc/callback' },
+                        { Name: 'OAUTH_CLIENT_ID', Value: { Ref: Match.stringLikeRegexp('AlbClient') } },
+                    ]),
+                    Secrets: Match.arrayWith([
+                        { Name: 'OAUTH_CLIENT_SECRET', ValueFrom: { Ref: Match.stringLikeRegexp('AuthenticationClientSecret') } },
+                    ]),
+                }),
+            ]),
+        });
+        const containers = Object.values(template.findResources('AWS::ECS::TaskDefinition'))[0].Properties.ContainerDefinitions;
+        const environment = containers.flatMap((container: { Environment?: { Name: string }[] }) => container.Environment ?? []);
+        expect(environment.map((variable: { Name: string }) => variable.Name)).not.toContain('WEBUI_AUTH_TRUSTED_EMAIL_HEADER');
+    });
+
+    test('Viewer Host header is forwarded and covered by the ALB certificate', () => {
+        template.hasResourceProperties('AWS::CertificateManager::Certificate', {
+            DomainName: 'origin.chat.example.com',
+            SubjectAlternativeNames: ['chat.example.com'],
+        });
+        template.hasResourceProperties('AWS::CloudFront::Distribution', {
+            DistributionConfig: Match.objectLike({
+                DefaultCacheBehavior: Match.objectLike({
+                    // Managed AllViewer policy
+                    OriginRequestPolicyId: '216adef6-5c7f-47e4-b989-5492eafa07d3',
+                }),
+            }),
+        });
+    });
+
+    test('External OIDC provider is used instead of Cognito', () => {
+        const template = createStack({
+            oidc: {
+                issuer: 'https://sso.example.com',
+                authorizationEndpoint: 'https://sso.example.com/authorize',
+                tokenEndpoint: 'https://sso.example.com/token',
+                userInfoEndpoint: 'https://sso.example.com/userinfo',
+                clientId: 'open-webui',
+                clientSecret: SecretValue.unsafePlainText('client-secret'),
+            },
+            mergeAccountsByEmail: true,
+        });
+
+        template.resourceCountIs('AWS::Cognito::UserPool', 0);
+        template.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerRule', {
+            Actions: [
+                Match.objectLike({
+                    Type: 'authenticate-oidc',
+                    AuthenticateOidcConfig: Match.objectLike({ Issuer: 'https://sso.example.com', ClientId: 'open-webui' }),
+                }),
+                Match.objectLike({ Type: 'forward' }),
+            ],
+        });
+        template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+            ContainerDefinitions: Match.arrayWith([
+                Match.objectLike({
+                    Name: 'openwebui',
+                    Environment: Match.arrayWith([
+                        { Name: 'ENABLE_SIGNUP', Value: 'false' },
+                        { Name: 'ENABLE_LOGIN_FORM', Value: 'false' },
+                        { Name: 'OAUTH_MERGE_ACCOUNTS_BY_EMAIL', Value: 'true' },
+                        { Name: 'OAUTH_PROVIDER_NAME', Value: 'SSO' },
+                        { Name: 'OPENID_PROVIDER_URL', Value: 'https://sso.example.com/.well-known/openid-configuration' },
+                        { Name: 'OAUTH_CLIENT_ID', Value: 'open-webui' },
+                    ]),
+                }),
+            ]),
+        });
+        template.hasResourceProperties('AWS::SecretsManager::Secret', { SecretString: 'client-secret' });
+    });
+
+    test('Local sign-up cannot be turned back on with authentication', () => {
+        const stack = new Stack(new App(), 'AuthenticationSignupStack', { env: { account: '123456789012', region: 'us-east-1' } });
+        expect(() => new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            domain: {
+                hostedZone: HostedZone.fromHostedZoneAttributes(stack, 'Zone', { hostedZoneId: 'Z0123456789ABCDEFGHIJ', zoneName: 'example.com' }),
+                domainName: 'chat.example.com',
+            },
+            authentication: {},
+            settings: { enableSignup: true },
+        })).toThrow(/ENABLE_SIGNUP/);
+    });
+
+    test('Authentication without a domain is rejected', () => {
+        const stack = new Stack(new App(), 'AuthenticationWithoutDomainStack');
+        expect(() => new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            authentication: {},
+        })).toThrow(/authentication requires domain/);
+    });
+});
+
+describe('OpenWebUIEcsConstruct pipelines endpoint', () => {
+    const createStack = (pipelinesEndpoint?: PipelinesEndpointProps) => {
+        const stack = new Stack(new App(), 'PipelinesEndpointStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            certificate: Certificate.fromCertificateArn(stack, 'Certificate', 'arn:aws:acm:us-east-1:123456789012:certificate/abc'),
+            pipelinesEndpoint,
+        });
+        return stack;
+    };
+    const pipelinesAlbSecurityGroup = (template: Template) => Object.values(template.findResources('AWS::EC2::SecurityGroup', {
+        Properties: { GroupDescription: Match.stringLikeRegexp('PipelinesAlbSG') },
+    }))[0].Properties;
+
+    test('No pipelines endpoint is created by default', () => {
+        const stack = createStack();
+        const template = Template.fromStack(stack);
+
+        template.resourceCountIs('AWS::ElasticLoadBalancingV2::LoadBalancer', 1);
+        Annotations.fromStack(stack).hasWarning('*', Match.stringLikeRegexp('PipelinesAlb is no longer created by default'));
+    });
+
+    test('Internal endpoint only admits the given CIDRs and security groups', () => {
+        const stack = new Stack(new App(), 'InternalPipelinesStack');
+        const vpc = new Vpc(stack, 'ClientVpc');
+        const clients = new SecurityGroup(stack, 'Clients', { vpc });
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            vpc,
+            certificate: Certificate.fromCertificateArn(stack, 'Certificate', 'arn:aws:acm:us-east-1:123456789012:certificate/abc'),
+            pipelinesEndpoint: {
+                mode: PipelinesEndpointMode.INTERNAL,
+                allowedCidrs: ['10.20.0.0/16'],
+                allowedSecurityGroups: [clients],
+            },
+        });
+        const template = Template.fromStack(stack);
+
+        template.hasResourceProperties('AWS::ElasticLoadBalancingV2::LoadBalancer', {
+            Scheme: 'internal',
+        });
+        expect(pipelinesAlbSecurityGroup(template).SecurityGroupIngress).toEqual([
+            expect.objectContaining({ CidrIp: '10.20.0.0/16', FromPort: 443 }),
+        ]);
+        template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+            FromPort: 443,
+            SourceSecurityGroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('Clients'), 'GroupId'] },
+        });
+    });
+
+    test('Public endpoint with WAF only admits the allow-list', () => {
+        const template = Template.fromStack(createStack({
+            mode: PipelinesEndpointMode.PUBLIC_WITH_WAF,
+            allowedCidrs: ['203.0.113.0/24'],
+        }));
+
+        template.hasResourceProperties('AWS::ElasticLoadBalancingV2::LoadBalancer', {
+            Name: Match.absent(),
+            Scheme: 'internet-facing',
+            SecurityGroups: [{ 'Fn::GetAtt': [Match.stringLikeRegexp('PipelinesAlbSG'), 'GroupId'] }],
+        });
+        expect(pipelinesAlbSecurityGroup(template).SecurityGroupIngress).toEqual([
+            expect.objectContaining({ CidrIp: '203.0.113.0/24', FromPort: 443 }),
+        ]);
+        template.hasResourceProperties('AWS::WAFv2::IPSet', {
+            Scope: 'REGIONAL',
+            Addresses: ['203.0.113.0/24'],
+        });
+        template.hasResourceProperties('AWS::WAFv2::WebACL', {
+            DefaultAction: { Block: {} },
+            Rules: Match.arrayWith([
+                Match.objectLike({ Name: 'RateLimitPerIp', Statement: { RateBasedStatement: { Limit: 1000, AggregateKeyType: 'IP' } } }),
+                Match.objectLike({ Name: 'AllowListedIps', Action: { Allow: {} } }),
+            ]),
+        });
+        template.resourceCountIs('AWS::WAFv2::WebACLAssociation', 1);
+    });
+
+    test('Open public endpoint is an explicit opt-in', () => {
+        const template = Template.fromStack(createStack({ mode: PipelinesEndpointMode.PUBLIC }));
+
+        expect(pipelinesAlbSecurityGroup(template).SecurityGroupIngress).toEqual([
+            expect.objectContaining({ CidrIp: '0.0.0.0/0', FromPort: 443 }),
+        ]);
+    });
+
+    test('Endpoints without an allow-list are rejected', () => {
+        expect(() => createStack({ mode: PipelinesEndpointMode.INTERNAL })).toThrow(/requires allowedCidrs or allowedSecurityGroups/);
+        expect(() => createStack({ mode: PipelinesEndpointMode.PUBLIC_WITH_WAF })).toThrow(/requires allowedCidrs/);
+    });
+
+    test('A rate limit outside the WAF range is rejected', () => {
+        for (const rateLimit of [5, 100.5, 3_000_000_000]) {
+            expect(() => createStack({ mode: PipelinesEndpointMode.PUBLIC_WITH_WAF, allowedCidrs: ['203.0.113.0/24'], rateLimit }))
+                .toThrow(`pipelinesEndpoint.rateLimit must be an integer from 10 to 2000000000, got ${rateLimit}`);
+        }
+    });
+});
+
+describe('OpenWebUIEcsConstruct with a separate pipelines service', () => {
+    let template: Template;
+
+    beforeAll(() => {
+        const stack = new Stack(new App(), 'PipelinesServiceStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            pipelinesService: {
+                cpu: 512,
+                memoryLimitMiB: 1024,
+                maxCapacity: 4,
+            },
+        });
+        template = Template.fromStack(stack);
+    });
+
+    test('Pipelines run in their own task definition and service', () => {
+        template.resourceCountIs('AWS::ECS::Service', 2);
+        template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+            Cpu: '512',
+            Memory: '1024',
+            ContainerDefinitions: [Match.objectLike({ Name: 'pipelines' })],
+        });
+        template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+            Cpu: '4096',
+            ContainerDefinitions: [Match.objectLike({ Name: 'openwebui' })],
+        });
+        template.hasResourceProperties('AWS::ECS::Service', {
+            DeploymentConfiguration: Match.objectLike({
+                DeploymentCircuitBreaker: { Enable: true, Rollback: true },
+            }),
+            ServiceConnectConfiguration: Match.objectLike({
+                Services: [Match.objectLike({ PortName: 'pipelines', ClientAliases: [{ DnsName: 'pipelines', Port: 9099 }] })],
+            }),
+        });
+    });
+
+    test('Open WebUI reaches pipelines through Service Connect', () => {
+        template.hasResourceProperties('AWS::ServiceDiscovery::HttpNamespace', { Name: 'openwebui.internal' });
+        template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+            ContainerDefinitions: [Match.objectLike({
+                Name: 'openwebui',
+                Environment: Match.arrayWith([{ Name: 'PIPELINES_SERVICE_URL', Value: 'http://pipelines:9099' }]),
+            })],
+        });
+        template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+            FromPort: 9099,
+            GroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('PipelinesServiceSG'), 'GroupId'] },
+            SourceSecurityGroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('ServiceSG'), 'GroupId'] },
+        });
+    });
+
+    test('Pipelines scale on CPU', () => {
+        template.hasResourceProperties('AWS::ApplicationAutoScaling::ScalableTarget', {
+            MinCapacity: 1,
+            MaxCapacity: 4,
+        });
+        template.hasResourceProperties('AWS::ApplicationAutoScaling::ScalingPolicy', {
+            TargetTrackingScalingPolicyConfiguration: Match.objectLike({
+                PredefinedMetricSpecification: { PredefinedMetricType: 'ECSServiceAverageCPUUtilization' },
+                TargetValue: 70,
+            }),
+        });
+    });
+
+    test('Bedrock permissions are granted to the pipelines task only', () => {
+        const policies = template.findResources('AWS::IAM::Policy', {
+            Properties: {
+                PolicyDocument: {
+                    Statement: Match.arrayWith([Match.objectLike({ Action: 'bedrock:InvokeModel' })]),
+                },
+            },
+        });
+        expect(Object.keys(policies)).toEqual([expect.stringMatching(/PipelinesTaskDefTaskRole/)]);
+    });
+
+    test('Invalid pipelines task size is rejected', () => {
+        const stack = new Stack(new App(), 'InvalidPipelinesServiceStack');
+        expect(() => new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            pipelinesService: { cpu: 256, memoryLimitMiB: 4096 },
+        })).toThrow(/pipelinesService.memoryLimitMiB for cpu 256/);
+    });
+});
+
+describe('OpenWebUIEcsConstruct with autoscaling', () => {
+    let stack: Stack;
+    let template: Template;
+
+    beforeAll(() => {
+        stack = new Stack(new App(), 'AutoScalingStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            autoScaling: {
+                maxCapacity: 6,
+                targetMemoryUtilizationPercent: 80,
+                requestsPerTarget: 500,
+                schedules: {
+                    WeekendScaleIn: { schedule: Schedule.cron({ weekDay: 'SAT', hour: '0', minute: '0' }), minCapacity: 0, maxCapacity: 0 },
+                },
+            },
+        });
+        template = Template.fromStack(stack);
+    });
+
+    test('Service scales between the configured limits on a schedule', () => {
+        template.hasResourceProperties('AWS::ApplicationAutoScaling::ScalableTarget', {
+            MinCapacity: 1,
+            MaxCapacity: 6,
+            ScheduledActions: [{
+                ScheduledActionName: 'WeekendScaleIn',
+                Schedule: 'cron(0 0 ? * SAT *)',
+                ScalableTargetAction: { MinCapacity: 0, MaxCapacity: 0 },
+            }],
+        });
+    });
+
+    test('CPU, memory and request count policies are created', () => {
+        for (const metric of ['ECSServiceAverageCPUUtilization', 'ECSServiceAverageMemoryUtilization', 'ALBRequestCountPerTarget']) {
+            template.hasResourceProperties('AWS::ApplicationAutoScaling::ScalingPolicy', {
+                TargetTrackingScalingPolicyConfiguration: Match.objectLike({
+                    PredefinedMetricSpecification: Match.objectLike({ PredefinedMetricType: metric }),
+                }),
+            });
+        }
+    });
+
+    test('Tasks share a session secret and the ALB uses sticky sessions', () => {
+        template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+            ContainerDefinitions: Match.arrayWith([Match.objectLike({
+                Name: 'openwebui',
+                Secrets: Match.arrayWith([{
+                    Name: 'WEBUI_SECRET_KEY',
+                    ValueFrom: { Ref: Match.stringLikeRegexp('WebUISecretKey') },
+                }]),
+            })]),
+        });
+        template.hasResourceProperties('AWS::ElasticLoadBalancingV2::TargetGroup', {
+            Port: 8080,
+            TargetGroupAttributes: Match.arrayWith([
+                { Key: 'stickiness.enabled', Value: 'true' },
+                { Key: 'stickiness.type', Value: 'lb_cookie' },
+            ]),
+        });
+        Annotations.fromStack(stack).hasWarning('*', Match.stringLikeRegexp('SQLite database on EFS'));
+    });
+
+    test('A maximum below the minimum is rejected', () => {
+        const invalidStack = new Stack(new App(), 'InvalidAutoScalingStack');
+        expect(() => new OpenWebUIEcsConstruct(invalidStack, 'OpenWebUIEcsConstruct', {
+            desiredCount: 3,
+            autoScaling: { maxCapacity: 2 },
+        })).toThrow(/autoScaling.maxCapacity must be >= 3/);
+    });
+});
+
+describe('OpenWebUIEcsConstruct with a database', () => {
+    let stack: Stack;
+    let template: Template;
+
+    beforeAll(() => {
+        stack = new Stack(new App(), 'DatabaseStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            autoScaling: { maxCapacity: 2 },
+            database: {
+                maxCapacity: 8,
+                removalPolicy: RemovalPolicy.RETAIN,
+                backupRetention: Duration.days(14),
+            },
+        });
+        template = Template.fromStack(stack);
+    });
+
+    test('Aurora Serverless v2 PostgreSQL cluster is created with generated credentials', () => {
+        template.hasResource('AWS::RDS::DBCluster', {
+            Properties: Match.objectLike({
+                Engine: 'aurora-postgresql',
+                DatabaseName: 'openwebui',
+                StorageEncrypted: true,
+                BackupRetentionPeriod: 14,
+                ServerlessV2ScalingConfiguration: { MinCapacity: 0.5, MaxCapacity: 8 },
+            }),
+            DeletionPolicy: 'Retain',
+        });
+        template.hasResourceProperties('AWS::RDS::DBInstance', { DBInstanceClass: 'db.serverless' });
+        template.resourceCountIs('AWS::SecretsManager::SecretTargetAttachment', 1);
+    });
+
+    test('Open WebUI gets DATABASE_URL assembled from the secret', () => {
+        template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+            ContainerDefinitions: Match.arrayWith([Match.objectLike({
+                Name: 'openwebui',
+                Command: ['bash', '-c', Match.stringLikeRegexp('export DATABASE_URL="postgresql://.*" && exec bash start.sh')],
+                Secrets: Match.arrayWith([
+                    Match.objectLike({ Name: 'DATABASE_PASSWORD' }),
+                    Match.objectLike({ Name: 'DATABASE_HOST' }),
+                ]),
+            })]),
+        });
+        Annotations.fromStack(stack).hasNoWarning('*', Match.stringLikeRegexp('SQLite database on EFS'));
+    });
+
+    test('Database only accepts connections from the service security group', () => {
+        const databaseSecurityGroups = template.findResources('AWS::EC2::SecurityGroup', {
+            Properties: { GroupDescription: Match.stringLikeRegexp('/Database/') },
+        });
+        expect(Object.keys(databaseSecurityGroups)).toHaveLength(1);
+        template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+            GroupId: { 'Fn::GetAtt': [Object.keys(databaseSecurityGroups)[0], 'GroupId'] },
+            SourceSecurityGroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('ServiceSG'), 'GroupId'] },
+        });
+        const ingress = template.findResources('AWS::EC2::SecurityGroupIngress', {
+            Properties: { GroupId: { 'Fn::GetAtt': [Object.keys(databaseSecurityGroups)[0], 'GroupId'] } },
+        });
+        expect(Object.keys(ingress)).toHaveLength(1);
+    });
+});
+
+describe('OpenWebUIEcsConstruct EFS protection', () => {
+    test('File system is retained, tiered to IA and backed up daily and weekly by default', () => {
+        const stack = new Stack(new App(), 'EfsProtectionStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct');
+        const template = Template.fromStack(stack);
+
+        template.hasResource('AWS::EFS::FileSystem', {
+            Properties: Match.objectLike({
+                LifecyclePolicies: [
+                    { TransitionToIA: 'AFTER_30_DAYS' },
+                    { TransitionToPrimaryStorageClass: 'AFTER_1_ACCESS' },
+                ],
+            }),
+            DeletionPolicy: 'Retain',
+        });
+        template.hasResource('AWS::Backup::BackupVault', { DeletionPolicy: 'Retain' });
+        template.hasResourceProperties('AWS::Backup::BackupPlan', {
+            BackupPlan: {
+                BackupPlanName: Match.anyValue(),
+                BackupPlanRule: [
+                    Match.objectLike({ RuleName: 'Daily', ScheduleExpression: 'cron(0 5 * * ? *)', Lifecycle: { DeleteAfterDays: 35 } }),
+                    Match.objectLike({ RuleName: 'Weekly', ScheduleExpression: 'cron(0 5 ? * SUN *)', Lifecycle: { DeleteAfterDays: 365 } }),
+                ],
+            },
+        });
+        template.hasResourceProperties('AWS::Backup::BackupSelection', {
+            BackupSelection: Match.objectLike({
+                Resources: [{ 'Fn::Join': ['', Match.arrayWith([{ Ref: Match.stringLikeRegexp('EfsFileSystem') }])] }],
+            }),
+        });
+    });
+
+    test('A restored file system is attached by ID', () => {
+        const stack = new Stack(new App(), 'RestoredEfsStack');
+        const vpc = new Vpc(stack, 'Vpc');
+        const efsSecurityGroup = new SecurityGroup(stack, 'RestoredEfsSG', { vpc });
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            vpc,
+            efsFileSystemId: 'fs-0123456789abcdef0',
+            efsSecurityGroup,
+            efsBackup: { dailyRetention: Duration.days(7) },
+        });
+        const template = Template.fromStack(stack);
+
+        template.resourceCountIs('AWS::EFS::FileSystem', 0);
+        template.hasResourceProperties('AWS::EFS::AccessPoint', {
+            FileSystemId: 'fs-0123456789abcdef0',
+            RootDirectory: Match.objectLike({ Path: '/openwebui' }),
+        });
+        template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+            GroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('RestoredEfsSG'), 'GroupId'] },
+            FromPort: 2049,
+        });
+        template.hasResourceProperties('AWS::Backup::BackupPlan', {
+            BackupPlan: Match.objectLike({
+                BackupPlanRule: Match.arrayWith([Match.objectLike({ RuleName: 'Daily', Lifecycle: { DeleteAfterDays: 7 } })]),
+            }),
+        });
+    });
+
+    test('Backups can be turned off', () => {
+        const stack = new Stack(new App(), 'NoEfsBackupStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', { enableEfsBackup: false });
+
+        Template.fromStack(stack).resourceCountIs('AWS::Backup::BackupPlan', 0);
+    });
+});
+
+describe('OpenWebUIEcsConstruct monitoring', () => {
+    let template: Template;
+
+    beforeAll(() => {
+        const stack = new Stack(new App(), 'MonitoringStack', { env: { account: '123456789012', region: 'us-east-1' } });
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            pipelinesService: {},
+            monitoring: {
+                alarmEmails: ['ops@example.com'],
+                thresholds: { cpuUtilizationPercent: 90 },
+            },
+        });
+        template = Template.fromStack(stack);
+    });
+
+    test('Dashboard covers ECS, the ALB, CloudFront and EFS', () => {
+        const dashboards = template.findResources('AWS::CloudWatch::Dashboard');
+        const body = JSON.stringify(Object.values(dashboards)[0].Properties.DashboardBody);
+        for (const title of ['ECS CPU utilization', 'ECS running tasks', 'ALB 5xx responses', 'ALB target health', 'CloudFront error rates', 'EFS burst credits', 'EFS throughput']) {
+            expect(body).toContain(title);
+        }
+        template.hasResourceProperties('AWS::ECS::Cluster', {
+            ClusterSettings: [{ Name: 'containerInsights', Value: 'enabled' }],
+        });
+    });
+
+    test('Alarms publish to the created topic', () => {
+        template.hasResourceProperties('AWS::SNS::Subscription', { Protocol: 'email', Endpoint: 'ops@example.com' });
+        const alarms = template.findResources('AWS::CloudWatch::Alarm');
+        // CPU, memory and running tasks for both services, ALB 5xx, latency, unhealthy and healthy hosts,
+        // CloudFront 5xx and EFS burst credits
+        expect(Object.keys(alarms)).toHaveLength(12);
+        for (const alarm of Object.values(alarms)) {
+            expect(alarm.Properties.AlarmActions).toEqual([{ Ref: expect.stringMatching(/MonitoringAlarmTopic/) }]);
+        }
+        template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+            AlarmDescription: 'OpenWebUI CPU utilization is high',
+            Threshold: 90,
+        });
+        template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+            AlarmDescription: Match.stringLikeRegexp('CloudFront'),
+            Metrics: [Match.objectLike({ MetricStat: Match.objectLike({ Metric: Match.objectLike({ MetricName: '5xxErrorRate' }) }) })],
+            Threshold: 5,
+        });
+        template.hasOutput('*', { Value: { Ref: Match.stringLikeRegexp('MonitoringAlarmTopic') } });
+    });
+
+    test('Losing every healthy target or running fewer tasks than desired raises an alarm', () => {
+        template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+            AlarmDescription: 'Open WebUI has no healthy targets',
+            Metrics: [Match.objectLike({
+                MetricStat: Match.objectLike({ Metric: Match.objectLike({ MetricName: 'HealthyHostCount' }), Stat: 'Minimum' }),
+            })],
+            ComparisonOperator: 'LessThanThreshold',
+            Threshold: 1,
+            TreatMissingData: 'notBreaching',
+        });
+        for (const name of ['OpenWebUI', 'Pipelines']) {
+            template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+                AlarmDescription: `${name} runs fewer tasks than desired`,
+                ComparisonOperator: 'GreaterThanThreshold',
+                Threshold: 0,
+                TreatMissingData: 'notBreaching',
+                Metrics: Match.arrayWith([
+                    Match.objectLike({ Expression: 'desired - running' }),
+                    Match.objectLike({ MetricStat: Match.objectLike({ Metric: Match.objectLike({ MetricName: 'DesiredTaskCount' }) }) }),
+                    Match.objectLike({ MetricStat: Match.objectLike({ Metric: Match.objectLike({ MetricName: 'RunningTaskCount' }) }) }),
+                ]),
+            });
+        }
+    });
+
+    test('Scaling to zero on a schedule leaves out the no-healthy-target alarm', () => {
+        const stack = new Stack(new App(), 'MonitoringScheduleStack', { env: { account: '123456789012', region: 'us-east-1' } });
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            autoScaling: {
+                maxCapacity: 1,
+                schedules: { Weekend: { schedule: Schedule.cron({ weekDay: 'SAT', hour: '0', minute: '0' }), minCapacity: 0, maxCapacity: 0 } },
+            },
+            monitoring: {},
+        });
+        const scheduleTemplate = Template.fromStack(stack);
+
+        scheduleTemplate.resourcePropertiesCountIs('AWS::CloudWatch::Alarm', { AlarmDescription: 'Open WebUI has no healthy targets' }, 0);
+        scheduleTemplate.hasResourceProperties('AWS::CloudWatch::Alarm', { AlarmDescription: 'Open WebUI tasks fail ALB health checks' });
+    });
+
+    test('Running tasks are only monitored on an existing cluster with Container Insights', () => {
+        const createClusterStack = (containerInsights?: boolean) => {
+            const stack = new Stack(new App(), 'MonitoringClusterStack', { env: { account: '123456789012', region: 'us-east-1' } });
+            const vpc = new Vpc(stack, 'SharedVpc');
+            const cluster = Cluster.fromClusterAttributes(stack, 'SharedCluster', { clusterName: 'shared-cluster', vpc });
+            new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', { vpc, cluster, monitoring: { containerInsights } });
+            return stack;
+        };
+        const withoutInsights = createClusterStack();
+        const withoutTemplate = Template.fromStack(withoutInsights);
+        withoutTemplate.resourcePropertiesCountIs('AWS::CloudWatch::Alarm', { AlarmDescription: 'OpenWebUI runs fewer tasks than desired' }, 0);
+        const dashboard = Object.values(withoutTemplate.findResources('AWS::CloudWatch::Dashboard'))[0];
+        expect(JSON.stringify(dashboard.Properties.DashboardBody)).not.toContain('ContainerInsights');
+        Annotations.fromStack(withoutInsights).hasWarning('*', Match.stringLikeRegexp('Container Insights is not turned on'));
+
+        Template.fromStack(createClusterStack(true)).hasResourceProperties('AWS::CloudWatch::Alarm', {
+            AlarmDescription: 'OpenWebUI runs fewer tasks than desired',
+        });
+    });
+
+    test('CloudFront is only alarmed on in us-east-1 and an existing topic can be used', () => {
+        const stack = new Stack(new App(), 'MonitoringEuStack', { env: { account: '123456789012', region: 'eu-west-1' } });
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            monitoring: { alarmTopic: Topic.fromTopicArn(stack, 'Topic', 'arn:aws:sns:eu-west-1:123456789012:ops') },
+        });
+        const euTemplate = Template.fromStack(stack);
+
+        euTemplate.resourceCountIs('AWS::SNS::Topic', 0);
+        euTemplate.resourcePropertiesCountIs('AWS::CloudWatch::Alarm', { AlarmDescription: Match.stringLikeRegexp('CloudFront') }, 0);
+        euTemplate.hasResourceProperties('AWS::CloudWatch::Alarm', {
+            AlarmDescription: Match.stringLikeRegexp('burst credits'),
+            ComparisonOperator: 'LessThanThreshold',
+            AlarmActions: ['arn:aws:sns:eu-west-1:123456789012:ops'],
+        });
+    });
+});
+
+describe('OpenWebUIEcsConstruct Bedrock usage tracking', () => {
+    let template: Template;
+
+    beforeAll(() => {
+        const stack = new Stack(new App(), 'BedrockUsageStack', { env: { account: '123456789012', region: 'us-east-1' } });
+        const topic = new Topic(stack, 'CostTopic');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            bedrockUsage: {
+                logToS3: true,
+                budget: { monthlyLimitUsd: 500, emails: ['finance@example.com'], topic },
+            },
+        });
+        template = Template.fromStack(stack);
+    });
+
+    test('Invocation logging is delivered to CloudWatch and S3', () => {
+        const loggingConfiguration = Object.values(template.findResources('Custom::AWS'))
+            .map((resource) => JSON.stringify(resource.Properties.Create))
+            .find((create) => create.includes('putModelInvocationLoggingConfiguration'));
+        expect(loggingConfiguration).toContain('cloudWatchConfig');
+        expect(loggingConfiguration).toContain('s3Config');
+        template.hasResourceProperties('AWS::IAM::Role', {
+            AssumeRolePolicyDocument: {
+                Statement: [Match.objectLike({
+                    Principal: { Service: 'bedrock.amazonaws.com' },
+                    Condition: Match.objectLike({ StringEquals: { 'aws:SourceAccount': '123456789012' } }),
+                })],
+            },
+        });
+        template.hasResourceProperties('AWS::S3::BucketPolicy', {
+            PolicyDocument: {
+                Statement: Match.arrayWith([Match.objectLike({
+                    Action: 's3:PutObject',
+                    Principal: { Service: 'bedrock.amazonaws.com' },
+                })]),
+            },
+        });
+    });
+
+    test('Dashboard shows usage per model in every Bedrock region', () => {
+        const dashboards = template.findResources('AWS::CloudWatch::Dashboard');
+        const body = JSON.stringify(Object.values(dashboards)[0].Properties.DashboardBody);
+        for (const metric of ['Invocations', 'InputTokenCount', 'OutputTokenCount', 'InvocationThrottles', 'InvocationLatency']) {
+            expect(body).toContain(`MetricName=\\\\\\"${metric}\\\\\\"`);
+        }
+        expect(body).toContain('Invocations (us-west-2)');
+    });
+
+    test('Budget alerts on Bedrock spend by email and SNS', () => {
+        template.hasResourceProperties('AWS::Budgets::Budget', {
+            Budget: Match.objectLike({
+                BudgetLimit: { Amount: 500, Unit: 'USD' },
+                CostFilters: { Service: ['Amazon Bedrock'] },
+            }),
+            NotificationsWithSubscribers: [{
+                Notification: Match.objectLike({ Threshold: 80, ThresholdType: 'PERCENTAGE' }),
+                Subscribers: [
+                    { SubscriptionType: 'EMAIL', Address: 'finance@example.com' },
+                    { SubscriptionType: 'SNS', Address: { Ref: Match.stringLikeRegexp('CostTopic') } },
+                ],
+            }],
+        });
+        template.hasResourceProperties('AWS::SNS::TopicPolicy', {
+            PolicyDocument: {
+                Statement: [Match.objectLike({ Principal: { Service: 'budgets.amazonaws.com' } })],
+            },
+        });
+    });
+
+    test('S3 invocation logs expire after the log retention unless it is infinite', () => {
+        template.hasResourceProperties('AWS::S3::Bucket', {
+            LifecycleConfiguration: { Rules: [Match.objectLike({ ExpirationInDays: 90, Status: 'Enabled' })] },
+        });
+
+        const stack = new Stack(new App(), 'InfiniteRetentionStack', { env: { account: '123456789012', region: 'us-east-1' } });
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            bedrockUsage: { logToS3: true, logRetention: RetentionDays.INFINITE },
+        });
+        const infiniteTemplate = Template.fromStack(stack);
+        const logBuckets = infiniteTemplate.findResources('AWS::S3::Bucket', {
+            Properties: { LifecycleConfiguration: { Rules: Match.arrayWith([Match.objectLike({ ExpirationInDays: Match.anyValue() })]) } },
+        });
+        expect(Object.keys(logBuckets)).toEqual([]);
+    });
+
+    test('A budget without a target is rejected', () => {
+        const stack = new Stack(new App(), 'InvalidBudgetStack');
+        expect(() => new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            bedrockUsage: { budget: { monthlyLimitUsd: 100 } },
+        })).toThrow(/needs emails or a topic/);
+    });
+});
+
+describe('OpenWebUIEcsConstruct CloudFront WAF', () => {
+    const usEast1 = { account: '123456789012', region: 'us-east-1' };
+
+    test('Web ACL with managed rules and an API rate limit is attached to the distribution', () => {
+        const stack = new Stack(new App(), 'CloudFrontWafStack', { env: usEast1 });
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            cloudFrontWaf: { allowedCountries: ['DE', 'US'], allowedCidrs: ['203.0.113.0/24'] },
+        });
+        const template = Template.fromStack(stack);
+
+        template.hasResourceProperties('AWS::WAFv2::WebACL', {
+            Scope: 'CLOUDFRONT',
+            DefaultAction: { Allow: {} },
+            Rules: [
+                Match.objectLike({ Name: 'BlockOutsideAllowedCountries', Priority: 0, Action: { Block: {} } }),
+                Match.objectLike({ Name: 'BlockOutsideAllowedIps', Priority: 1 }),
+                Match.objectLike({ Name: 'AWSManagedRulesAmazonIpReputationList', OverrideAction: { None: {} } }),
+                Match.objectLike({ Name: 'AWSManagedRulesCommonRuleSet' }),
+                Match.objectLike({ Name: 'AWSManagedRulesKnownBadInputsRuleSet' }),
+                Match.objectLike({
+                    Name: 'ApiRateLimitPerIp',
+                    Statement: {
+                        RateBasedStatement: Match.objectLike({
+                            Limit: 2000,
+                            ScopeDownStatement: { ByteMatchStatement: Match.objectLike({ SearchString: '/api/', PositionalConstraint: 'STARTS_WITH' }) },
+                        }),
+                    },
+                }),
+            ],
+        });
+        template.hasResourceProperties('AWS::CloudFront::Distribution', {
+            DistributionConfig: Match.objectLike({
+                WebACLId: { 'Fn::GetAtt': [Match.stringLikeRegexp('CloudFrontWafWebAcl'), 'Arn'] },
+            }),
+        });
+        template.hasResourceProperties('AWS::Logs::LogGroup', { LogGroupName: Match.stringLikeRegexp('^aws-waf-logs-') });
+        template.resourceCountIs('AWS::WAFv2::LoggingConfiguration', 1);
+    });
+
+    test('Count-only mode does not block', () => {
+        const stack = new Stack(new App(), 'CountOnlyWafStack', { env: usEast1 });
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            cloudFrontWaf: {
+                countOnly: true,
+                logDestinationArn: 'arn:aws:s3:::aws-waf-logs-openwebui',
+            },
+        });
+        const template = Template.fromStack(stack);
+
+        const webAcl = Object.values(template.findResources('AWS::WAFv2::WebACL'))[0];
+        for (const rule of webAcl.Properties.Rules) {
+            expect(rule.Action?.Block ?? rule.OverrideAction?.None).toBeUndefined();
+        }
+        template.hasResourceProperties('AWS::WAFv2::LoggingConfiguration', {
+            LogDestinationConfigs: ['arn:aws:s3:::aws-waf-logs-openwebui'],
+        });
+        template.resourcePropertiesCountIs('AWS::Logs::LogGroup', { LogGroupName: Match.stringLikeRegexp('^aws-waf-logs-') }, 0);
+    });
+
+    test('Creating the web ACL outside us-east-1 is rejected', () => {
+        const stack = new Stack(new App(), 'EuWafStack', { env: { account: '123456789012', region: 'eu-west-1' } });
+        expect(() => new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', { cloudFrontWaf: {} }))
+            .toThrow(/cloudFrontWaf needs a stack in us-east-1/);
+    });
+
+    test('An API rate limit outside the WAF range is rejected', () => {
+        for (const apiRateLimit of [0, 2.5, 2_000_000_001]) {
+            const stack = new Stack(new App(), 'InvalidRateLimitStack', { env: usEast1 });
+            expect(() => new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', { cloudFrontWaf: { apiRateLimit } }))
+                .toThrow(`cloudFrontWaf.apiRateLimit must be an integer from 10 to 2000000000, got ${apiRateLimit}`);
+        }
+    });
+});
+
+describe('OpenWebUIEcsConstruct with a customer managed key', () => {
+    let template: Template;
+    const keyArn = { 'Fn::GetAtt': [Match.stringLikeRegexp('EncryptionKey'), 'Arn'] };
+
+    beforeAll(() => {
+        const stack = new Stack(new App(), 'KmsStack');
+        new OpenWebUIEcsConstruct(stack, 'OpenWebUIEcsConstruct', {
+            createKmsKey: true,
+            database: {},
+            bedrockUsage: {},
+        });
+        template = Template.fromStack(stack);
+    });
+
+    test('Key is created with rotation and lets CloudWatch Logs use it', () => {
+        template.hasResource('AWS::KMS::Key', {
+            Properties: Match.objectLike({
+                EnableKeyRotation: true,
+                KeyPolicy: {
+                    Statement: Match.arrayWith([Match.objectLike({
+                        Principal: { Service: { 'Fn::Join': ['', ['logs.', { Ref: 'AWS::Region' }, '.amazonaws.com']] } },
+                        Condition: { ArnLike: { 'kms:EncryptionContext:aws:logs:arn': Match.anyValue() } },
+                    })]),
+                },
+            }),
+            DeletionPolicy: 'Retain',
+        });
+    });
+
+    test('EFS, every secret, the database, backups and log groups use the key', () => {
+        template.hasResourceProperties('AWS::EFS::FileSystem', { Encrypted: true, KmsKeyId: keyArn });
+        const secrets = template.findResources('AWS::SecretsManager::Secret');
+        expect(Object.keys(secrets).length).toBeGreaterThanOrEqual(3);
+        for (const secret of Object.values(secrets)) {
+            expect(secret.Properties.KmsKeyId).toEqual({ 'Fn::GetAtt': [expect.stringMatching(/EncryptionKey/), 'Arn'] });
+        }
+        template.hasResourceProperties('AWS::RDS::DBCluster', { KmsKeyId: keyArn });
+        template.hasResourceProperties('AWS::Backup::BackupVault', { EncryptionKeyArn: keyArn });
+        const logGroups = template.findResources('AWS::Logs::LogGroup');
+        expect(Object.keys(logGroups)).toHaveLength(3);
+        for (const logGroup of Object.values(logGroups)) {
+            expect(logGroup.Properties.KmsKeyId).toEqual({ 'Fn::GetAtt': [expect.stringMatching(/EncryptionKey/), 'Arn'] });
+        }
+    });
+
+    test('Key policy lets the account administer the key and use it only through the services', () => {
+        const key = Object.values(template.findResources('AWS::KMS::Key'))[0];
+        type Joined = { 'Fn::Join': [string, unknown[]] };
+        type Statement = {
+            Sid?: string;
+            Action: string | string[];
+            Principal: { AWS?: unknown };
+            Condition?: { StringEquals: { [key: string]: Joined | Joined[] } };
+        };
+        const statements: Statement[] = key.Properties.KeyPolicy.Statement;
+        const joinedPrefix = (value: Joined) => value['Fn::Join'][1][0];
+        expect(statements.filter((statement) => [statement.Action].flat().includes('kms:*'))).toEqual([]);
+        const bySid = (sid: string) => statements.find((statement) => statement.Sid === sid)!;
+        const rootPrincipal = { AWS: { 'Fn::Join': ['', ['arn:', { Ref: 'AWS::Partition' }, ':iam::', { Ref: 'AWS::AccountId' }, ':root']] } };
+
+        const administration = bySid('KeyAdministration');
+        expect(administration.Principal).toEqual(rootPrincipal);
+        expect(administration.Action).toEqual(expect.arrayContaining(['kms:Put*', 'kms:ScheduleKeyDeletion', 'kms:Enable*']));
+        expect(administration.Action).not.toEqual(expect.arrayContaining(['kms:Decrypt']));
+        expect(administration.Action).not.toEqual(expect.arrayContaining(['kms:Create*']));
+        expect(administration.Condition).toBeUndefined();
+
+        const services = bySid('UseThroughServices');
+        expect(services.Principal).toEqual(rootPrincipal);
+        expect(services.Action).toEqual(expect.arrayContaining(['kms:Decrypt', 'kms:GenerateDataKey*', 'kms:CreateGrant']));
+        expect(services.Condition?.StringEquals['kms:CallerAccount']).toEqual({ Ref: 'AWS::AccountId' });
+        expect((services.Condition?.StringEquals['kms:ViaService'] as Joined[]).map(joinedPrefix))
+            .toEqual(['elasticfilesystem.', 'secretsmanager.', 'backup.', 'rds.']);
+
+        const tasks = bySid('TaskSecrets');
+        expect(tasks.Action).toEqual(['kms:Decrypt', 'kms:DescribeKey']);
+        expect((tasks.Principal.AWS as { 'Fn::GetAtt': string[] }[]).map((principal) => principal['Fn::GetAtt'][0])).toEqual([
+            expect.stringMatching(/OpenWebUITaskDefTaskRole/),
+            expect.stringMatching(/OpenWebUITaskDefExecutionRole/),
+        ]);
+        expect(joinedPrefix(tasks.Condition?.StringEquals['kms:ViaService'] as Joined)).toEqual('secretsmanager.');
+    });
+
+    test('The task execution role may decrypt the secrets', () => {
+        template.hasResourceProperties('AWS::KMS::Key', {
+            KeyPolicy: {
+                Statement: Match.arrayWith([Match.objectLike({
+                    Action: 'kms:Decrypt',
+                    Principal: { AWS: { 'Fn::GetAtt': [Match.stringLikeRegexp('OpenWebUITaskDefExecutionRole'), 'Arn'] } },
+                    Condition: { StringEquals: { 'kms:ViaService': Match.anyValue() } },
+                })]),
+            },
+        });
+    });
+});
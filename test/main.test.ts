@@ -1,25 +1,137 @@
-// We recommend installing an extension to run jest tests.
-import { App } from 'aws-cdk-lib';
-import { Template } from 'aws-cdk-lib/assertions';
-import { RudyLLMStack } from '../src/main';
+import { App, Stack } from 'aws-cdk-lib';
+import { Annotations, Match, Template } from 'aws-cdk-lib/assertions';
+import { AppConfig, EnvironmentConfig, validateAppConfig } from '../src/config';
+import { APP_CONFIG } from '../src/environments';
+import { OpenWebUIPipelineStack } from '../src/pipeline';
+import { OpenWebUIStage } from '../src/stage';
 
-describe('RudyLLMStack', () => {
-  let app: App;
-  let stack: RudyLLMStack;
-  let template: Template;
+const PIPELINE_CONFIG: AppConfig = {
+  ...APP_CONFIG,
+  pipeline: {
+    account: '058264355679',
+    region: 'us-east-1',
+    repository: 'example/open-webui-infra',
+    connectionArn: 'arn:aws:codeconnections:us-east-1:058264355679:connection/2f6a3b8e-4c1d-4e2f-9a7b-5d3c1e0f8a6b',
+  },
+};
 
-  beforeAll(() => {
-    app = new App();
-    stack = new RudyLLMStack(app, 'TestRudyLLMStack');
-    template = Template.fromStack(stack);
+describe('Environment configuration', () => {
+  test('Configured environments are valid', () => {
+    expect(() => validateAppConfig(APP_CONFIG)).not.toThrow();
+    expect(() => validateAppConfig(PIPELINE_CONFIG)).not.toThrow();
   });
-  // filepath: /Users/addierudy/projects/rudy-llm/test/main.test.ts
 
-  test('Snapshot', () => {
-    expect(template.toJSON()).toMatchSnapshot();
+  test.each<[string, Partial<EnvironmentConfig>, RegExp]>([
+    ['account', { account: '12345' }, /12 digit account ID/],
+    ['region', { region: 'us-east' }, /not a region name/],
+    ['maxCapacity', { desiredCount: 3, maxCapacity: 2 }, /maxCapacity must not be less than desiredCount/],
+    ['certificateArn', { certificateArn: 'arn:aws:acm:eu-west-1:058264355679:certificate/abc' }, /ACM certificate in us-east-1/],
+    ['certificateArn without a domain', { certificateArn: 'arn:aws:acm:us-east-1:058264355679:certificate/abc' }, /only used with domain/],
+    ['efs', { efs: { fileSystemId: 'vol-0123456789abcdef0', securityGroupId: 'sg-0123456789abcdef0' } }, /file system ID/],
+    ['domain', { domain: { domainName: 'chat.example.org', hostedZoneId: 'Z0123456789ABCDEFGHIJ', hostedZoneName: 'example.com' } }, /not in hosted zone/],
+  ])('Invalid %s is rejected', (_name, override, error) => {
+    const environments = [{ ...APP_CONFIG.environments[0], ...override }];
+    expect(() => validateAppConfig({ environments })).toThrow(error);
   });
 
-  test('Stack has correct name', () => {
-    expect(stack.stackName).toEqual('TestRudyLLMStack');
+  test('Certificates in other partitions are accepted', () => {
+    const environments = [{
+      ...APP_CONFIG.environments[0],
+      region: 'us-gov-west-1',
+      certificateArn: 'arn:aws-us-gov:acm:us-gov-west-1:058264355679:certificate/abc',
+      domain: { domainName: 'chat.example.com', hostedZoneId: 'Z0123456789ABCDEFGHIJ', hostedZoneName: 'example.com' },
+    }];
+    expect(() => validateAppConfig({ environments })).not.toThrow();
   });
-});
\ No newline at end of file
+
+  test('Duplicate environments are rejected', () => {
+    const environments = [APP_CONFIG.environments[0], APP_CONFIG.environments[0]];
+    expect(() => validateAppConfig({ environments })).toThrow(/defined more than once/);
+  });
+});
+
+describe.each(APP_CONFIG.environments.map((environment) => [environment.name, environment] as const))(
+  'OpenWebUIStage %s',
+  (_name, environment) => {
+    const stage = new OpenWebUIStage(new App(), environment.name, { environment });
+    const template = Template.fromStack(stage.stack);
+
+    test('Snapshot', () => {
+      expect(template.toJSON()).toMatchSnapshot();
+    });
+
+    test('Stack is deployed to the environment', () => {
+      expect(stage.stack.stackName).toEqual(`${environment.name}-OpenWebUIStack`);
+      expect(stage.stack.account).toEqual(environment.account);
+      expect(stage.stack.region).toEqual(environment.region);
+    });
+
+    test('Stack synthesizes without certificate warnings', () => {
+      expect(Annotations.fromStack(stage.stack).findWarning('*', Match.stringLikeRegexp('certificate|PipelinesAlb'))).toEqual([]);
+    });
+  },
+);
+
+test('An environment attaches an existing file system', () => {
+  const environment: EnvironmentConfig = {
+    ...APP_CONFIG.environments[0],
+    efs: { fileSystemId: 'fs-0123456789abcdef0', securityGroupId: 'sg-0123456789abcdef0' },
+  };
+  const stage = new OpenWebUIStage(new App(), environment.name, { environment });
+  const template = Template.fromStack(stage.stack);
+  template.resourceCountIs('AWS::EFS::FileSystem', 0);
+  template.hasResourceProperties('AWS::EFS::AccessPoint', { FileSystemId: 'fs-0123456789abcdef0' });
+});
+
+test('An environment with a domain outside us-east-1 gets a stack for the CloudFront certificate', () => {
+  const environment: EnvironmentConfig = {
+    ...APP_CONFIG.environments[0],
+    region: 'eu-west-1',
+    domain: { domainName: 'chat.example.com', hostedZoneId: 'Z0123456789ABCDEFGHIJ', hostedZoneName: 'example.com' },
+  };
+  const stage = new OpenWebUIStage(new App(), environment.name, { environment });
+  const certificateStack = stage.node.findChild('CloudFrontCertificateStack') as Stack;
+  expect(certificateStack.stackName).toEqual(`${environment.name}-CloudFrontCertificateStack`);
+  expect(certificateStack.region).toEqual('us-east-1');
+  Template.fromStack(certificateStack).hasResourceProperties('AWS::CertificateManager::Certificate', {
+    DomainName: 'chat.example.com',
+  });
+});
+
+describe('OpenWebUIPipelineStack', () => {
+  const app = new App();
+  const stack = new OpenWebUIPipelineStack(app, 'OpenWebUIPipeline', { config: PIPELINE_CONFIG });
+  stack.pipeline.buildPipeline();
+  const template = Template.fromStack(stack);
+
+  test('Pipeline updates itself and deploys every environment in order', () => {
+    const pipeline = template.findResources('AWS::CodePipeline::Pipeline');
+    const stages = Object.values(pipeline)[0].Properties.Stages.map((stage: { Name: string }) => stage.Name);
+    expect(stages).toEqual(['Source', 'Build', 'UpdatePipeline', 'Assets', 'dev', 'staging', 'prod']);
+  });
+
+  test('Prod waits for a manual approval', () => {
+    template.hasResourceProperties('AWS::CodePipeline::Pipeline', {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: 'prod',
+          Actions: Match.arrayWith([
+            Match.objectLike({
+              Name: 'PromoteToProd',
+              ActionTypeId: Match.objectLike({ Category: 'Approval' }),
+              RunOrder: 1,
+            }),
+          ]),
+        }),
+      ]),
+    });
+  });
+
+  test('Artifacts are encrypted for the prod account', () => {
+    template.resourceCountIs('AWS::KMS::Key', 1);
+  });
+
+  test('A config without a pipeline is rejected', () => {
+    expect(() => new OpenWebUIPipelineStack(new App(), 'NoPipeline', { config: APP_CONFIG })).toThrow(/needs config.pipeline/);
+  });
+});